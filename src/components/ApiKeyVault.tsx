@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { decryptSecret, EncryptedSecret, encryptSecret } from "@/lib/keyVault";
+import { deleteStoredKey, fetchStoredKey, saveStoredKey } from "@/lib/keyVaultStore";
+import { TtsProvider } from "@/lib/tts/provider";
+
+interface ApiKeyVaultProps {
+  provider: TtsProvider;
+  apiKey: string;
+  onApiKeyChange: (key: string) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// The provider API key field, with an encrypted vault so the key survives reloads without being stored in the clear
+const ApiKeyVault: React.FC<ApiKeyVaultProps> = ({ provider, apiKey, onApiKeyChange }) => {
+  const [stored, setStored] = useState<EncryptedSecret | null>(null);
+  // The key last unlocked or saved, to tell whether the field still holds the saved key
+  const [savedKey, setSavedKey] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStored(null);
+    setSavedKey(null);
+
+    fetchStoredKey(provider.id).then(secret => {
+      if (!cancelled) setStored(secret);
+    }).catch(error => {
+      console.error("Error loading saved API key:", error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider.id]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stored || !passphrase) return;
+
+    setIsBusy(true);
+    try {
+      const key = await decryptSecret(stored, passphrase);
+      setSavedKey(key);
+      setPassphrase("");
+      onApiKeyChange(key);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to unlock the saved key");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey || passphrase.length < MIN_PASSPHRASE_LENGTH) return;
+
+    setIsBusy(true);
+    try {
+      const secret = await encryptSecret(apiKey, passphrase);
+      await saveStoredKey(provider.id, secret);
+      setStored(secret);
+      setSavedKey(apiKey);
+      setPassphrase("");
+      toast.success(`${provider.name} key saved. Unlock it with your passphrase next time`);
+    } catch (error) {
+      console.error("Error saving API key:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save the API key");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForget = async () => {
+    try {
+      await deleteStoredKey(provider.id);
+      setStored(null);
+      setSavedKey(null);
+    } catch (error) {
+      console.error("Error removing API key:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove the saved key");
+    }
+  };
+
+  const isLocked = !!stored && !apiKey;
+  const isSaved = !!stored && !!apiKey && apiKey === savedKey;
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="provider-api-key" className="text-sm font-medium">
+        {provider.name} API Key
+      </label>
+
+      {isLocked ? (
+        <form onSubmit={handleUnlock} className="flex space-x-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase for your saved key"
+            aria-label="Passphrase"
+            autoComplete="current-password"
+            className="input-field flex-1"
+          />
+          <button type="submit" disabled={isBusy || !passphrase} className="btn-secondary disabled:opacity-50">
+            Unlock
+          </button>
+        </form>
+      ) : (
+        <div className="relative">
+          <input
+            id="provider-api-key"
+            type={showApiKey ? "text" : "password"}
+            value={apiKey}
+            onChange={(e) => onApiKeyChange(e.target.value)}
+            placeholder={`Enter your ${provider.name} API key`}
+            autoComplete="off"
+            className="input-field pr-10"
+          />
+          <button
+            type="button"
+            onClick={() => setShowApiKey(!showApiKey)}
+            className="absolute inset-y-0 right-0 flex items-center pr-3 text-muted-foreground hover:text-foreground"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="h-4 w-4"
+            >
+              {showApiKey ? (
+                <>
+                  <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z" />
+                  <circle cx="12" cy="12" r="3" />
+                </>
+              ) : (
+                <>
+                  <path d="M9.88 9.88a3 3 0 1 0 4.24 4.24" />
+                  <path d="M10.73 5.08A10.43 10.43 0 0 1 12 5c7 0 10 7 10 7a13.16 13.16 0 0 1-1.67 2.68" />
+                  <path d="M6.61 6.61A13.526 13.526 0 0 0 2 12s3 7 10 7a9.74 9.74 0 0 0 5.39-1.61" />
+                  <line x1="2" x2="22" y1="2" y2="22" />
+                </>
+              )}
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {apiKey && !isSaved && (
+        <form onSubmit={handleSave} className="flex space-x-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`Passphrase, at least ${MIN_PASSPHRASE_LENGTH} characters`}
+            aria-label="Passphrase to encrypt the key"
+            autoComplete="new-password"
+            className="input-field flex-1"
+          />
+          <button
+            type="submit"
+            disabled={isBusy || passphrase.length < MIN_PASSPHRASE_LENGTH}
+            className="btn-secondary disabled:opacity-50"
+          >
+            {stored ? "Replace saved key" : "Save key"}
+          </button>
+        </form>
+      )}
+
+      <div className="flex items-start justify-between gap-2 text-xs text-muted-foreground">
+        <p>
+          {isLocked
+            ? "Your saved key is encrypted. Enter your passphrase to use it in this session"
+            : isSaved
+              ? "Saved key unlocked for this session"
+              : "Keys are encrypted with your passphrase before they are saved, to your account when signed in or otherwise in this browser"}
+        </p>
+        {stored && (
+          <div className="flex shrink-0 space-x-3">
+            {isSaved && (
+              <button type="button" onClick={() => onApiKeyChange("")} className="hover:text-foreground">
+                Lock
+              </button>
+            )}
+            <button type="button" onClick={handleForget} className="hover:text-destructive">
+              Forget saved key
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyVault;
@@ -1,6 +1,9 @@
 
 import React, { useState } from "react";
-import { ExportConfig, VideoConfig } from "@/lib/types";
+import { CaptionSegment, CaptionSettings, ExportConfig, ExportResult, VideoConfig } from "@/lib/types";
+import { getOutputDimensions } from "@/lib/render/composition";
+import { createSubtitleFile, SubtitleFormat } from "@/lib/subtitles";
+import { downloadBlob } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface ExportOptionsProps {
@@ -8,19 +11,37 @@ interface ExportOptionsProps {
   videoConfig: VideoConfig;
   onConfigChange: (config: ExportConfig) => void;
   onExport: () => void;
+  onCancel?: () => void;
+  onReset?: () => void; // clears a finished export so the video can be rendered again
   processingProgress: number;
+  estimatedTime?: number;
   isProcessing: boolean;
   totalMediaDuration: number;
+  exportResult?: ExportResult | null;
+  captions: CaptionSettings;
+  captionSegments: CaptionSegment[];
 }
 
+const SUBTITLE_OPTIONS: { label: string; value: SubtitleFormat }[] = [
+  { label: "SRT", value: "srt" },
+  { label: "WebVTT", value: "vtt" },
+  { label: "ASS (styled)", value: "ass" },
+];
+
 const ExportOptions: React.FC<ExportOptionsProps> = ({
   config,
   videoConfig,
   onConfigChange,
   onExport,
+  onCancel,
+  onReset,
   processingProgress,
+  estimatedTime,
   isProcessing,
   totalMediaDuration,
+  exportResult,
+  captions,
+  captionSegments,
 }) => {
   const [showDownloadOptions, setShowDownloadOptions] = useState(false);
 
@@ -60,53 +81,28 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
   };
 
   const handleDownload = () => {
-    console.log("Creating video download");
+    if (!exportResult) {
+      toast.error("No rendered video available yet");
+      return;
+    }
     
-    // In a real application, we would fetch the actual video URL from the backend
-    // For this demo, we'll create a dummy video blob with some basic content
-    const canvas = document.createElement('canvas');
-    canvas.width = 1280;
-    canvas.height = 720;
-    const ctx = canvas.getContext('2d');
+    downloadBlob(exportResult.blob, exportResult.fileName);
     
-    // Create a basic video frame
-    if (ctx) {
-      // Fill with black background
-      ctx.fillStyle = '#000';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // Add some text
-      ctx.fillStyle = '#fff';
-      ctx.font = '24px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Faceless Video Creator', canvas.width/2, canvas.height/2 - 50);
-      ctx.fillText('Demo Export', canvas.width/2, canvas.height/2);
-      ctx.fillText(`Format: ${config.format.toUpperCase()}`, canvas.width/2, canvas.height/2 + 50);
-      ctx.fillText(`Quality: ${config.quality}`, canvas.width/2, canvas.height/2 + 100);
+    toast.success("Video downloaded successfully!");
+    setShowDownloadOptions(false);
+  };
+
+  const handleSubtitleDownload = (format: SubtitleFormat) => {
+    if (captionSegments.length === 0) {
+      toast.error("Add caption text to export subtitles");
+      return;
     }
     
-    // Convert canvas to blob
-    canvas.toBlob((blob) => {
-      if (!blob) {
-        toast.error("Failed to create video file");
-        return;
-      }
-      
-      // Create a download link for the blob
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `faceless-video-${Date.now()}.${config.format}`;
-      document.body.appendChild(a);
-      a.click();
-      
-      // Clean up
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      toast.success("Video downloaded successfully!");
-      setShowDownloadOptions(false);
-    }, `video/${config.format}`, 0.95);
+    const dimensions = getOutputDimensions(videoConfig.resolution, videoConfig.aspectRatio);
+    const file = createSubtitleFile(format, captionSegments, captions, dimensions);
+    downloadBlob(file, `faceless-captions-${Date.now()}.${format}`);
+    
+    toast.success(`Subtitles downloaded as ${format.toUpperCase()}`);
   };
 
   return (
@@ -169,7 +165,12 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
         <div className="space-y-3">
           <div className="flex justify-between text-sm">
             <span>Processing video...</span>
-            <span>{processingProgress}%</span>
+            <span>
+              {processingProgress}%
+              {processingProgress < 100 && estimatedTime !== undefined && (
+                <span className="text-muted-foreground"> • {formatDuration(estimatedTime)} left</span>
+              )}
+            </span>
           </div>
           <div className="h-2 bg-muted rounded-full overflow-hidden">
             <div 
@@ -178,7 +179,17 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
             ></div>
           </div>
           
-          {processingProgress === 100 && (
+          {processingProgress < 100 && onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="btn-secondary w-full"
+            >
+              Cancel
+            </button>
+          )}
+          
+          {processingProgress === 100 && exportResult && (
             <div className="pt-2">
               <button 
                 type="button" 
@@ -230,6 +241,19 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
                   </div>
                 </div>
               )}
+
+              {onReset && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowDownloadOptions(false);
+                    onReset();
+                  }}
+                  className="btn-secondary w-full mt-2"
+                >
+                  New Export
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -258,6 +282,26 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
         </button>
       )}
       
+      <div className="space-y-2 pt-2 border-t border-border">
+        <div className="text-sm font-medium">Subtitle file</div>
+        <div className="grid grid-cols-3 gap-2">
+          {SUBTITLE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleSubtitleDownload(option.value)}
+              disabled={captionSegments.length === 0}
+              className="btn-accent text-xs"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Soft subtitles for platforms like YouTube, timed to the voiceover
+        </p>
+      </div>
+      
       <div className="text-xs text-muted-foreground text-center pt-1">
         {isProcessing 
           ? "This may take a few minutes depending on video length and quality" 
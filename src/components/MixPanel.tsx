@@ -0,0 +1,95 @@
+import React from "react";
+import { AudioSettings } from "@/lib/types";
+
+// The last measurement of the offline mix, as the export will hear it before normalizing
+export interface MixLoudness {
+  loudness: number | null; // LUFS, null when the mix is silent
+  gain: number; // dB the export applies to reach the target
+  isMeasuring: boolean; // a newer measurement is on its way
+}
+
+interface MixPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  loudness: MixLoudness | null;
+}
+
+const LOUDNESS_TARGETS: { value: number | null; label: string }[] = [
+  { value: null, label: "Off (keep the mix as it is)" },
+  { value: -14, label: "-14 LUFS (social and streaming)" },
+  { value: -16, label: "-16 LUFS (podcasts)" },
+  { value: -23, label: "-23 LUFS (EBU R128 broadcast)" },
+];
+
+const formatDecibels = (value: number): string => `${Math.abs(value).toFixed(1)} dB`;
+
+const describeLoudness = (loudness: MixLoudness | null, target: number | null): string => {
+  if (!loudness) return "Add a voiceover, music or video with sound to measure the mix";
+  if (loudness.loudness === null) return "The mix is silent";
+
+  const measured = `The mix measures ${loudness.loudness.toFixed(1)} LUFS`;
+  if (target === null) return measured;
+  if (Math.abs(loudness.gain) < 0.05) return `${measured}, already on target`;
+
+  const direction = loudness.gain > 0 ? "raises" : "lowers";
+  const result = loudness.loudness + loudness.gain;
+  // Raising stops short of the target when the peaks would clip
+  const limited = result < target - 0.05 ? ", as far as the peaks allow" : "";
+  return `${measured}; the export ${direction} it ${formatDecibels(loudness.gain)} to ${result.toFixed(1)} LUFS${limited}`;
+};
+
+// Balance the voiceover against the sound of the video clips, and set the loudness the export is normalized to
+const MixPanel: React.FC<MixPanelProps> = ({ settings, onChange, loudness }) => {
+  const updateSettings = (update: Partial<AudioSettings>) => {
+    onChange({ ...settings, ...update });
+  };
+
+  return (
+    <div className="glass-panel p-5 space-y-4">
+      <div className="text-sm font-medium">Mix</div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {([
+          { key: "voiceoverVolume", label: "Voiceover" },
+          { key: "clipVolume", label: "Video sound" },
+        ] as const).map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex justify-between">
+              <label htmlFor={`mix-${key}-range`} className="text-sm font-medium">{label}</label>
+              <span className="text-xs text-muted-foreground">{settings[key]}%</span>
+            </div>
+            <input
+              id={`mix-${key}-range`}
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={settings[key]}
+              onChange={(e) => updateSettings({ [key]: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="loudness-target-select" className="text-sm font-medium">Loudness</label>
+        <select
+          id="loudness-target-select"
+          value={settings.loudnessTarget ?? ""}
+          onChange={(e) => updateSettings({ loudnessTarget: e.target.value === "" ? null : parseFloat(e.target.value) })}
+          className="input-field"
+        >
+          {LOUDNESS_TARGETS.map(({ value, label }) => (
+            <option key={label} value={value ?? ""}>{label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground">
+          {loudness?.isMeasuring ? "Measuring..." : describeLoudness(loudness, settings.loudnessTarget)}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MixPanel;
@@ -0,0 +1,364 @@
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { AudioSettings, BackgroundMusic, DuckingSettings } from "@/lib/types";
+import { BUNDLED_TRACKS, forgetMusic, getMusicRange, loadMusic, playMusic } from "@/lib/music";
+import { deleteUploadedTrack, fetchUploadedTracks, saveUploadedTrack } from "@/lib/musicStore";
+import { decodeAudio } from "@/lib/render/audio";
+
+interface MusicPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  projectDuration: number; // seconds the music is looped or trimmed to
+}
+
+const formatDuration = (seconds: number): string => {
+  return `${Math.floor(seconds / 60)}:${Math.round(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+// Pick a background track from the bundled catalogue or the user's uploads, and set how it sits under the video
+const MusicPanel: React.FC<MusicPanelProps> = ({ settings, onChange, projectDuration }) => {
+  const [uploadedTracks, setUploadedTracks] = useState<BackgroundMusic[]>([]);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+  const previewTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped whenever a preview stops, so a track that finishes loading after that doesn't start playing
+  const previewTokenRef = useRef(0);
+
+  useEffect(() => {
+    fetchUploadedTracks().then(setUploadedTracks).catch(error => {
+      console.error("Error loading music library:", error);
+    });
+  }, []);
+
+  const stopPreview = () => {
+    previewTokenRef.current++;
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = null;
+    if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
+    setPreviewingId(null);
+  };
+  const stopPreviewOnUnmount = useRef(stopPreview);
+  stopPreviewOnUnmount.current = stopPreview;
+
+  useEffect(() => {
+    return () => stopPreviewOnUnmount.current();
+  }, []);
+
+  const updateSettings = (update: Partial<AudioSettings>) => {
+    onChange({ ...settings, ...update });
+  };
+
+  // A new track starts untrimmed
+  const selectTrack = (id: string | null) => {
+    updateSettings({ backgroundMusicId: id, musicTrimStart: 0, musicTrimEnd: null });
+  };
+
+  const updateDucking = (update: Partial<DuckingSettings>) => {
+    updateSettings({ ducking: { ...settings.ducking, ...update } });
+  };
+
+  // Play a track with the current volume, fades and looping, over the length of the video
+  const togglePreview = async (track: BackgroundMusic) => {
+    const wasPreviewing = previewingId === track.id;
+    stopPreview();
+    if (wasPreviewing) return;
+
+    const token = previewTokenRef.current;
+    setPreviewingId(track.id);
+    try {
+      const buffer = await loadMusic(track.id);
+      if (token !== previewTokenRef.current) return;
+
+      // Other tracks than the selected one are previewed whole
+      const trackSettings = track.id === settings.backgroundMusicId
+        ? settings
+        : { ...settings, musicTrimStart: 0, musicTrimEnd: null };
+      const range = getMusicRange(trackSettings, buffer);
+      const duration = projectDuration > 0 ? projectDuration : range.end - range.start;
+      stopPreviewRef.current = playMusic(buffer, trackSettings, { duration });
+      previewTimerRef.current = setTimeout(stopPreview, duration * 1000);
+    } catch (error) {
+      console.error("Error previewing music:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to play the track");
+      if (token === previewTokenRef.current) setPreviewingId(null);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const buffer = await decodeAudio(file).catch(() => {
+        throw new Error(`${file.name} isn't an audio file this browser can read`);
+      });
+      const track = await saveUploadedTrack(file, buffer.duration);
+      setUploadedTracks(prev => [...prev, track]);
+      selectTrack(track.id);
+      toast.success(`Added ${track.name} to your music`);
+    } catch (error) {
+      console.error("Error uploading music:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add the track");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const removeTrack = async (track: BackgroundMusic) => {
+    if (previewingId === track.id) stopPreview();
+    try {
+      await deleteUploadedTrack(track.id);
+      forgetMusic(track.id);
+      setUploadedTracks(prev => prev.filter(t => t.id !== track.id));
+      if (settings.backgroundMusicId === track.id) {
+        selectTrack(null);
+      }
+    } catch (error) {
+      console.error("Error removing music:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove the track");
+    }
+  };
+
+  const renderTrack = (track: BackgroundMusic, removable: boolean) => (
+    <div
+      key={track.id}
+      className={`flex items-center gap-2 rounded-md border p-2 text-sm transition-all
+        ${settings.backgroundMusicId === track.id ? "border-primary bg-primary/5" : "border-border hover:border-input"}`}
+    >
+      <button
+        type="button"
+        onClick={() => {
+          if (settings.backgroundMusicId !== track.id) selectTrack(track.id);
+        }}
+        className="flex-1 min-w-0 text-left"
+      >
+        <div className="truncate">{track.name}</div>
+        <div className="text-xs text-muted-foreground">{formatDuration(track.duration)}</div>
+      </button>
+      <button
+        type="button"
+        onClick={() => togglePreview(track)}
+        className="rounded-full p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted"
+        aria-label={previewingId === track.id ? `Stop ${track.name}` : `Preview ${track.name}`}
+      >
+        {previewingId === track.id ? (
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="h-4 w-4">
+            <rect x="6" y="6" width="12" height="12" />
+          </svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="h-4 w-4">
+            <polygon points="6 4 20 12 6 20 6 4" />
+          </svg>
+        )}
+      </button>
+      {removable && (
+        <button
+          type="button"
+          onClick={() => removeTrack(track)}
+          className="text-xs text-muted-foreground hover:text-destructive"
+          aria-label={`Remove ${track.name}`}
+        >
+          Remove
+        </button>
+      )}
+    </div>
+  );
+
+  const selected = [...BUNDLED_TRACKS, ...uploadedTracks].find(track => track.id === settings.backgroundMusicId);
+  const selectedRange = selected ? getMusicRange(settings, selected) : null;
+
+  return (
+    <div className="glass-panel p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Background music</div>
+        <button
+          type="button"
+          onClick={() => selectTrack(null)}
+          disabled={!settings.backgroundMusicId}
+          className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+        >
+          No music
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {BUNDLED_TRACKS.map(track => renderTrack(track, false))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">Your tracks</span>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="btn-secondary px-2 py-1 text-xs disabled:opacity-50"
+          >
+            {isUploading ? "Adding..." : "Upload track"}
+          </button>
+          <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleUpload} />
+        </div>
+        {uploadedTracks.length > 0
+          ? uploadedTracks.map(track => renderTrack(track, true))
+          : <p className="text-xs text-muted-foreground">Tracks you upload stay in this browser</p>}
+      </div>
+
+      {selected && (
+        <div className="pt-2 border-t border-border space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label htmlFor="music-volume-range" className="text-sm font-medium">Volume</label>
+              <span className="text-xs text-muted-foreground">{settings.backgroundMusicVolume}%</span>
+            </div>
+            <input
+              id="music-volume-range"
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={settings.backgroundMusicVolume}
+              onChange={(e) => updateSettings({ backgroundMusicVolume: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <label htmlFor="music-fade-in-range" className="text-sm font-medium">Fade in</label>
+                <span className="text-xs text-muted-foreground">{settings.fadeIn.toFixed(1)}s</span>
+              </div>
+              <input
+                id="music-fade-in-range"
+                type="range"
+                min="0"
+                max="5"
+                step="0.5"
+                value={settings.fadeIn}
+                onChange={(e) => updateSettings({ fadeIn: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <label htmlFor="music-fade-out-range" className="text-sm font-medium">Fade out</label>
+                <span className="text-xs text-muted-foreground">{settings.fadeOut.toFixed(1)}s</span>
+              </div>
+              <input
+                id="music-fade-out-range"
+                type="range"
+                min="0"
+                max="5"
+                step="0.5"
+                value={settings.fadeOut}
+                onChange={(e) => updateSettings({ fadeOut: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <label htmlFor="music-trim-start-range" className="text-sm font-medium">Start at</label>
+                <span className="text-xs text-muted-foreground">{formatDuration(selectedRange.start)}</span>
+              </div>
+              <input
+                id="music-trim-start-range"
+                type="range"
+                min="0"
+                max={selected.duration}
+                step="0.5"
+                value={selectedRange.start}
+                onChange={(e) => updateSettings({
+                  musicTrimStart: Math.min(parseFloat(e.target.value), selectedRange.end - 1),
+                })}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <label htmlFor="music-trim-end-range" className="text-sm font-medium">End at</label>
+                <span className="text-xs text-muted-foreground">{formatDuration(selectedRange.end)}</span>
+              </div>
+              <input
+                id="music-trim-end-range"
+                type="range"
+                min="0"
+                max={selected.duration}
+                step="0.5"
+                value={selectedRange.end}
+                onChange={(e) => {
+                  const end = Math.max(parseFloat(e.target.value), selectedRange.start + 1);
+                  updateSettings({ musicTrimEnd: end >= selected.duration ? null : end });
+                }}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.loopMusic}
+              onChange={(e) => updateSettings({ loopMusic: e.target.checked })}
+            />
+            <span>Loop the trimmed part to fill the video</span>
+          </label>
+          <p className="text-xs text-muted-foreground">
+            {projectDuration > 0
+              ? settings.loopMusic || selectedRange.end - selectedRange.start > projectDuration
+                ? `Music ends with the video at ${formatDuration(projectDuration)}`
+                : `Music ends at ${formatDuration(selectedRange.end - selectedRange.start)}, before the video does`
+              : "Add media to set the video length"}
+          </p>
+
+          <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.ducking.enabled}
+                onChange={(e) => updateDucking({ enabled: e.target.checked })}
+              />
+              <span>Lower the music under the voiceover</span>
+            </label>
+
+            {settings.ducking.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  { key: "threshold", label: "Threshold", min: -60, max: -20, step: 1, unit: " dB" },
+                  { key: "depth", label: "Depth", min: 3, max: 30, step: 1, unit: " dB" },
+                  { key: "attack", label: "Attack", min: 0.01, max: 0.5, step: 0.01, unit: "s" },
+                  { key: "release", label: "Release", min: 0.1, max: 2, step: 0.1, unit: "s" },
+                ] as const).map(({ key, label, min, max, step, unit }) => (
+                  <div key={key} className="space-y-1">
+                    <div className="flex justify-between">
+                      <label htmlFor={`ducking-${key}-range`} className="text-xs font-medium">{label}</label>
+                      <span className="text-xs text-muted-foreground">{settings.ducking[key]}{unit}</span>
+                    </div>
+                    <input
+                      id={`ducking-${key}-range`}
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={settings.ducking[key]}
+                      onChange={(e) => updateDucking({ [key]: parseFloat(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MusicPanel;
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { decodeAudio, encodeWav } from "@/lib/render/audio";
+import {
+  DEFAULT_GATE_THRESHOLD,
+  DEFAULT_NARRATION_EDIT,
+  MicrophoneRecording,
+  NarrationEdit,
+  processNarration,
+  startMicrophoneRecording,
+  timeNarration,
+} from "@/lib/narration";
+import { TtsProvider } from "@/lib/tts/provider";
+import { StitchedVoiceover } from "@/lib/tts/voiceover";
+
+interface NarrationRecorderProps {
+  script: string;
+  aligner: TtsProvider | null; // provider whose forced alignment times the captions, if any
+  apiKey: string;
+  onUseTake: (voiceover: StitchedVoiceover) => void;
+}
+
+// Shortest take left after trimming
+const MIN_TAKE_SECONDS = 0.5;
+
+const formatSeconds = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+// Record the script from the microphone, then trim and gate the take before it replaces the TTS voiceover
+const NarrationRecorder: React.FC<NarrationRecorderProps> = ({ script, aligner, apiKey, onUseTake }) => {
+  const [status, setStatus] = useState<"idle" | "recording" | "timing">("idle");
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [take, setTake] = useState<AudioBuffer | null>(null);
+  const [edit, setEdit] = useState<NarrationEdit>(DEFAULT_NARRATION_EDIT);
+  const [isPlayingTake, setIsPlayingTake] = useState(false);
+  const recordingRef = useRef<MicrophoneRecording | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const playbackRef = useRef<AudioContext | null>(null);
+
+  const stopMeter = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    setLevel(0);
+  };
+
+  const stopPlayback = () => {
+    playbackRef.current?.close();
+    playbackRef.current = null;
+    setIsPlayingTake(false);
+  };
+
+  // Release the microphone and the audio contexts if the recorder goes away mid-take
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.cancel();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      playbackRef.current?.close();
+    };
+  }, []);
+
+  const startRecording = async () => {
+    stopPlayback();
+    try {
+      const recording = await startMicrophoneRecording();
+      recordingRef.current = recording;
+      setTake(null);
+      setEdit(DEFAULT_NARRATION_EDIT);
+      setStatus("recording");
+
+      const startedAt = performance.now();
+      const updateMeter = () => {
+        setLevel(recording.getLevel());
+        setElapsed((performance.now() - startedAt) / 1000);
+        frameRef.current = requestAnimationFrame(updateMeter);
+      };
+      updateMeter();
+    } catch (error) {
+      console.error("Error starting narration recording:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start recording");
+    }
+  };
+
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    stopMeter();
+
+    try {
+      setTake(await decodeAudio(await recording.stop()));
+    } catch (error) {
+      console.error("Error decoding narration:", error);
+      toast.error("The recording couldn't be read. Please try again");
+    } finally {
+      setStatus("idle");
+    }
+  };
+
+  const togglePlayTake = () => {
+    if (!take) return;
+    if (isPlayingTake) {
+      stopPlayback();
+      return;
+    }
+
+    const context = new AudioContext();
+    const source = context.createBufferSource();
+    source.buffer = processNarration(take, edit);
+    source.connect(context.destination);
+    source.onended = () => {
+      if (playbackRef.current === context) stopPlayback();
+    };
+    source.start();
+    playbackRef.current = context;
+    setIsPlayingTake(true);
+  };
+
+  const applyTake = async () => {
+    if (!take) return;
+    stopPlayback();
+    setStatus("timing");
+
+    try {
+      const processed = processNarration(take, edit);
+      const { segments, aligned } = await timeNarration(processed, script, { provider: aligner, apiKey });
+      onUseTake({ blob: encodeWav(processed), buffer: processed, duration: processed.duration, segments });
+      toast.success(aligned
+        ? "Narration loaded, with captions timed to your words"
+        : "Narration loaded, with captions spread evenly over it");
+    } catch (error) {
+      console.error("Error using narration:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to use the recording");
+    } finally {
+      setStatus("idle");
+    }
+  };
+
+  const updateEdit = (update: Partial<NarrationEdit>) => {
+    stopPlayback();
+    setEdit(prev => ({ ...prev, ...update }));
+  };
+
+  const duration = take?.duration || 0;
+  const trimmedDuration = Math.max(0, duration - edit.trimStart - edit.trimEnd);
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-32 overflow-y-auto rounded-md bg-muted/30 p-2 text-sm whitespace-pre-wrap">
+        {script.trim() || "Write your caption text first, then read it aloud here"}
+      </div>
+
+      {status === "recording" && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className="flex items-center">
+              <span className="mr-2 h-2 w-2 rounded-full bg-destructive animate-pulse"></span>
+              Recording {formatSeconds(elapsed)}
+            </span>
+            {level >= 0.99 && <span className="text-destructive">Too loud, move back from the microphone</span>}
+          </div>
+          <div className="h-2 bg-muted rounded-full overflow-hidden">
+            <div
+              className={`h-full ${level >= 0.99 ? "bg-destructive" : level >= 0.7 ? "bg-yellow-500" : "bg-primary"}`}
+              style={{ width: `${Math.min(100, level * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {take && status !== "recording" && (
+        <div className="rounded-md border border-border p-3 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Take</span>
+            <span className="text-xs text-muted-foreground">
+              {formatSeconds(trimmedDuration)} of {formatSeconds(duration)}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <label htmlFor="trim-start-range" className="text-xs font-medium">Trim start</label>
+                <span className="text-xs text-muted-foreground">{edit.trimStart.toFixed(1)}s</span>
+              </div>
+              <input
+                id="trim-start-range"
+                type="range"
+                min="0"
+                max={Math.max(0, duration - edit.trimEnd - MIN_TAKE_SECONDS)}
+                step="0.1"
+                value={edit.trimStart}
+                onChange={(e) => updateEdit({ trimStart: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <label htmlFor="trim-end-range" className="text-xs font-medium">Trim end</label>
+                <span className="text-xs text-muted-foreground">{edit.trimEnd.toFixed(1)}s</span>
+              </div>
+              <input
+                id="trim-end-range"
+                type="range"
+                min="0"
+                max={Math.max(0, duration - edit.trimStart - MIN_TAKE_SECONDS)}
+                step="0.1"
+                value={edit.trimEnd}
+                onChange={(e) => updateEdit({ trimEnd: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-xs font-medium">
+                <input
+                  type="checkbox"
+                  checked={edit.gateThreshold !== null}
+                  onChange={(e) => updateEdit({ gateThreshold: e.target.checked ? DEFAULT_GATE_THRESHOLD : null })}
+                />
+                <span>Noise gate</span>
+              </label>
+              {edit.gateThreshold !== null && (
+                <span className="text-xs text-muted-foreground">Mutes below {edit.gateThreshold} dB</span>
+              )}
+            </div>
+            {edit.gateThreshold !== null && (
+              <input
+                type="range"
+                min="-70"
+                max="-30"
+                step="1"
+                value={edit.gateThreshold}
+                onChange={(e) => updateEdit({ gateThreshold: parseFloat(e.target.value) })}
+                className="w-full"
+                aria-label="Noise gate threshold"
+              />
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {aligner
+              ? `Captions will be timed to your words using ${aligner.name}`
+              : "Captions will be spread evenly over the take. Add an ElevenLabs key to time them to your words"}
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button type="button" onClick={togglePlayTake} disabled={status === "timing"} className="btn-secondary disabled:opacity-50">
+              {isPlayingTake ? "Stop" : "Play take"}
+            </button>
+            <button type="button" onClick={applyTake} disabled={status === "timing"} className="btn-primary disabled:opacity-50">
+              {status === "timing" ? "Timing captions..." : "Use this take"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={status === "recording" ? stopRecording : startRecording}
+        disabled={status === "timing"}
+        className={`w-full ${status === "recording" || !take ? "btn-primary" : "btn-secondary"} disabled:opacity-50`}
+      >
+        {status === "recording" ? "Stop recording" : take ? "Retake" : "Start recording"}
+      </button>
+    </div>
+  );
+};
+
+export default NarrationRecorder;
@@ -1,19 +1,28 @@
 
-import React, { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useMemo, useState } from "react";
 import { 
   MediaItem, 
   CaptionSettings, 
   VideoConfig,
   AspectRatio 
 } from "@/lib/types";
+import { formatCaptionLines } from "@/lib/captions";
+import { getCaptionColor } from "@/lib/speakers";
+import { buildClips } from "@/lib/render/composition";
+
+// How far the preview video may drift from the playhead before it is seeked back, in seconds
+const VIDEO_SYNC_TOLERANCE = 0.25;
 
 interface PreviewProps {
   media: MediaItem[];
   captions: CaptionSettings;
   videoConfig: VideoConfig;
   currentTime: number;
+  duration: number; // total length of the video, in seconds
   activeCaptionText?: string;
+  activeCaptionSpeaker?: string;
   isPlayingAudio?: boolean;
+  clipVolume?: number; // level of the video clips' own sound, from 0 to 1
   onTimeUpdate?: (time: number) => void;
   onPlayPauseToggle?: () => void;
 }
@@ -23,12 +32,16 @@ const Preview: React.FC<PreviewProps> = ({
   captions, 
   videoConfig, 
   currentTime,
+  duration,
   activeCaptionText,
+  activeCaptionSpeaker,
   isPlayingAudio = false,
+  clipVolume = 1,
   onTimeUpdate,
   onPlayPauseToggle
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
   const [currentMediaIndex, setCurrentMediaIndex] = useState(0);
   const [isHovering, setIsHovering] = useState(false);
@@ -62,60 +75,53 @@ const Preview: React.FC<PreviewProps> = ({
     return () => window.removeEventListener("resize", updateSize);
   }, [videoConfig.aspectRatio]);
 
+  const clips = useMemo(() => buildClips(media), [media]);
+  // Loop the preview if we're past the total duration
+  const normalizedTime = duration > 0 ? currentTime % duration : 0;
+
   // Update current media based on time
   useEffect(() => {
     if (media.length > 0) {
-      const mediaDuration = 5; // Assuming 5 seconds per media item for demo
-      const totalDuration = media.length * mediaDuration;
-      
-      // Loop the preview if we're past the total duration
-      const normalizedTime = totalDuration > 0 ? currentTime % totalDuration : 0;
-      
-      // Calculate which media item to show
-      const index = Math.floor(normalizedTime / mediaDuration);
-      setCurrentMediaIndex(Math.min(index, media.length - 1));
+      // Calculate which media item to show; the last one is held while the voiceover continues
+      const index = clips.findIndex(clip => normalizedTime < clip.start + clip.duration);
+      setCurrentMediaIndex(index === -1 ? media.length - 1 : index);
     }
-  }, [currentTime, media]);
+  }, [normalizedTime, clips, media.length]);
 
   // Get current media to display
   const currentMedia = media.length > 0 ? media[currentMediaIndex] : null;
 
-  // Format caption text for optimal readability
-  const formatCaptionText = (text: string | undefined): string[] => {
-    if (!text || text.trim() === '') return [];
-    
-    // Split into lines for better readability (max 42 chars per line)
-    const MAX_CHARS_PER_LINE = 42;
-    let lines: string[] = [];
-    let words = text.split(' ');
-    let currentLine = '';
-    
-    words.forEach(word => {
-      // Check if adding this word would exceed the max line length
-      if ((currentLine + ' ' + word).length <= MAX_CHARS_PER_LINE) {
-        currentLine = currentLine ? currentLine + ' ' + word : word;
-      } else {
-        // If the line would be too long, push the current line and start a new one
-        if (currentLine) lines.push(currentLine);
-        currentLine = word;
-      }
-    });
-    
-    // Add the last line if it exists
-    if (currentLine) lines.push(currentLine);
-    
-    // Return at most 2 lines
-    return lines.slice(0, 2);
-  };
+  // Play the clip's sound at the level it gets in the mix
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.volume = clipVolume;
+  }, [clipVolume, currentMedia]);
+
+  // Keep the video at the playhead, as the export does: from its first frame at the clip's start, holding the
+  // last one if the clip runs longer. It only plays along with the preview
+  const clipStart = clips[currentMediaIndex]?.start ?? 0;
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const target = Math.max(0, normalizedTime - clipStart);
+    if (Math.abs(video.currentTime - target) > VIDEO_SYNC_TOLERANCE) {
+      video.currentTime = target;
+    }
+    if (!isPlayingAudio) {
+      video.pause();
+    } else if (video.paused && target < video.duration) {
+      video.play().catch(error => console.error("Error playing the preview video:", error));
+    }
+  }, [normalizedTime, clipStart, isPlayingAudio, currentMedia]);
 
   // Format caption lines for display
-  const captionLines = formatCaptionText(activeCaptionText);
+  const captionLines = formatCaptionLines(activeCaptionText);
 
   // Build caption style based on settings
   const captionStyle = {
     fontFamily: captions.font,
     fontSize: `${captions.fontSize}px`,
-    color: captions.color,
+    color: getCaptionColor(captions, activeCaptionSpeaker),
     opacity: captions.opacity / 100,
     fontWeight: captions.textStyle.bold ? "bold" : "normal",
     fontStyle: captions.textStyle.italic ? "italic" : "normal",
@@ -137,9 +143,8 @@ const Preview: React.FC<PreviewProps> = ({
     }
   };
 
-  // Calculate total duration and progress
-  const totalDuration = media.length * 5; // 5 seconds per media
-  const progress = totalDuration > 0 ? (currentTime / totalDuration) * 100 : 0;
+  // Calculate progress through the video
+  const progress = duration > 0 ? Math.min(100, (currentTime / duration) * 100) : 0;
 
   return (
     <div ref={containerRef} className="glass-panel w-full overflow-hidden">
@@ -173,11 +178,10 @@ const Preview: React.FC<PreviewProps> = ({
           </div>
         ) : currentMedia?.type === "video" ? (
           <video
+            ref={videoRef}
             src={currentMedia.url}
             className="h-full w-full object-cover"
-            autoPlay
-            loop
-            muted
+            preload="auto"
           />
         ) : (
           <img
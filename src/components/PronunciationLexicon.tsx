@@ -0,0 +1,196 @@
+import React, { useRef, useState } from "react";
+import { toast } from "sonner";
+import { PronunciationEntry } from "@/lib/types";
+import { LexiconCsvError, lexiconToCsv, parseLexiconCsv } from "@/lib/lexicon";
+import { deleteLexiconEntry, saveLexiconEntries } from "@/lib/lexiconStore";
+import { downloadBlob } from "@/lib/utils";
+
+interface PronunciationLexiconProps {
+  entries: PronunciationEntry[];
+  onChange: (entries: PronunciationEntry[]) => void;
+}
+
+// Merge saved entries into the list, replacing any with the same term
+const mergeEntries = (current: PronunciationEntry[], saved: PronunciationEntry[]): PronunciationEntry[] => {
+  const byTerm = new Map(current.map(entry => [entry.term.toLowerCase(), entry]));
+  saved.forEach(entry => byTerm.set(entry.term.toLowerCase(), entry));
+  return [...byTerm.values()].sort((a, b) => a.term.localeCompare(b.term));
+};
+
+const PronunciationLexicon: React.FC<PronunciationLexiconProps> = ({ entries, onChange }) => {
+  const [draft, setDraft] = useState<PronunciationEntry>({ term: "", pronunciation: "", kind: "respelling" });
+  const [isSaving, setIsSaving] = useState(false);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: LexiconCsvError[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveEntries = async (newEntries: PronunciationEntry[]): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const saved = await saveLexiconEntries(newEntries);
+      onChange(mergeEntries(entries, saved));
+      return true;
+    } catch (error) {
+      console.error("Error saving pronunciations:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save pronunciations");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.term.trim() || !draft.pronunciation.trim()) return;
+
+    if (await saveEntries([draft])) {
+      setDraft({ ...draft, term: "", pronunciation: "" });
+    }
+  };
+
+  const handleDelete = async (entry: PronunciationEntry) => {
+    try {
+      if (entry.id) await deleteLexiconEntry(entry.id);
+      onChange(entries.filter(e => e !== entry));
+    } catch (error) {
+      console.error("Error deleting pronunciation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete pronunciation");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const { entries: imported, errors } = parseLexiconCsv(await file.text());
+    setImportErrors(errors.length > 0 ? { fileName: file.name, errors } : null);
+
+    if (imported.length === 0) {
+      toast.error(`No pronunciations found in ${file.name}`);
+      return;
+    }
+
+    if (await saveEntries(imported)) {
+      toast.success(`Imported ${imported.length} ${imported.length === 1 ? "pronunciation" : "pronunciations"}`);
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([lexiconToCsv(entries)], { type: "text/csv" }), "pronunciations.csv");
+  };
+
+  return (
+    <div className="glass-panel p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-base font-medium">Pronunciations</h3>
+          <p className="text-xs text-muted-foreground">
+            Applied to every script before it is spoken; captions keep the original spelling
+          </p>
+        </div>
+        <div className="flex space-x-2 text-xs">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            Import CSV
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto_auto] gap-2">
+        <input
+          value={draft.term}
+          onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+          placeholder="Term, e.g. SQL"
+          aria-label="Term"
+          className="input-field"
+        />
+        <input
+          value={draft.pronunciation}
+          onChange={(e) => setDraft({ ...draft, pronunciation: e.target.value })}
+          placeholder={draft.kind === "ipa" ? "IPA, e.g. ˈsiːkwəl" : "Say it as, e.g. sequel"}
+          aria-label="Pronunciation"
+          className="input-field"
+        />
+        <select
+          value={draft.kind}
+          onChange={(e) => setDraft({ ...draft, kind: e.target.value as PronunciationEntry["kind"] })}
+          aria-label="Pronunciation type"
+          className="input-field"
+        >
+          <option value="respelling">Respelling</option>
+          <option value="ipa">IPA</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isSaving || !draft.term.trim() || !draft.pronunciation.trim()}
+          className="btn-secondary disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+
+      {importErrors && (
+        <div className="rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium">
+              Skipped {importErrors.errors.length} {importErrors.errors.length === 1 ? "row" : "rows"} in {importErrors.fileName}
+            </span>
+            <button
+              type="button"
+              onClick={() => setImportErrors(null)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="max-h-24 overflow-y-auto space-y-0.5">
+            {importErrors.errors.map((error, index) => (
+              <li key={index}>
+                <span className="font-mono">Line {error.line}:</span> {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {entries.length > 0 ? (
+        <ul className="max-h-48 overflow-y-auto space-y-1 pr-1">
+          {entries.map((entry) => (
+            <li key={entry.id || entry.term} className="flex items-center gap-2 rounded-md border border-border p-2 text-sm">
+              <span className="font-medium">{entry.term}</span>
+              <span className="text-muted-foreground">→</span>
+              <span className={`flex-1 truncate ${entry.kind === "ipa" ? "font-mono" : ""}`}>{entry.pronunciation}</span>
+              {entry.kind === "ipa" && <span className="text-xs text-muted-foreground">IPA</span>}
+              <button
+                type="button"
+                onClick={() => handleDelete(entry)}
+                className="text-xs text-muted-foreground hover:text-destructive"
+                aria-label={`Remove ${entry.term}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          No pronunciations yet. Add brand names and acronyms that the voice gets wrong.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationLexicon;
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import { AudioSettings, SoundEffect, SoundEffectCue, TransitionEffect } from "@/lib/types";
+import { BUNDLED_EFFECTS, forgetSoundEffect, loadSoundEffect, MAX_EFFECT_DURATION, playSoundEffects } from "@/lib/sfx";
+import { deleteUploadedEffect, fetchUploadedEffects, saveUploadedEffect } from "@/lib/musicStore";
+import { decodeAudio } from "@/lib/render/audio";
+
+interface SfxPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  currentTime: number; // where new cues are placed, in seconds
+  projectDuration: number;
+  transition: TransitionEffect;
+}
+
+// Place short sounds on the timeline, by hand or at every transition
+const SfxPanel: React.FC<SfxPanelProps> = ({ settings, onChange, currentTime, projectDuration, transition }) => {
+  const [uploadedEffects, setUploadedEffects] = useState<SoundEffect[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    fetchUploadedEffects().then(setUploadedEffects).catch(error => {
+      console.error("Error loading sound effects:", error);
+    });
+    return () => stopPreviewRef.current?.();
+  }, []);
+
+  const effects = [...BUNDLED_EFFECTS, ...uploadedEffects];
+  const getEffectName = (id: string) => effects.find(effect => effect.id === id)?.name || "Missing effect";
+
+  const updateSettings = (update: Partial<AudioSettings>) => {
+    onChange({ ...settings, ...update });
+  };
+
+  const updateCues = (cues: SoundEffectCue[]) => {
+    updateSettings({ soundEffects: [...cues].sort((a, b) => a.time - b.time) });
+  };
+
+  const preview = async (effect: SoundEffect) => {
+    stopPreviewRef.current?.();
+    try {
+      const buffer = await loadSoundEffect(effect.id);
+      stopPreviewRef.current = playSoundEffects([{ source: buffer, offset: 0 }], settings);
+    } catch (error) {
+      console.error("Error previewing sound effect:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to play the sound effect");
+    }
+  };
+
+  const addCue = (effect: SoundEffect) => {
+    updateCues([...settings.soundEffects, { id: uuidv4(), effectId: effect.id, time: Math.round(currentTime * 10) / 10 }]);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const buffer = await decodeAudio(file).catch(() => {
+        throw new Error(`${file.name} isn't an audio file this browser can read`);
+      });
+      if (buffer.duration > MAX_EFFECT_DURATION) {
+        throw new Error(`Sound effects can be up to ${MAX_EFFECT_DURATION} seconds long; add longer tracks as music`);
+      }
+      const effect = await saveUploadedEffect(file, buffer.duration);
+      setUploadedEffects(prev => [...prev, effect]);
+      toast.success(`Added ${effect.name} to your sound effects`);
+    } catch (error) {
+      console.error("Error uploading sound effect:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add the sound effect");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Removing an effect from the library also takes it off the timeline
+  const removeEffect = async (effect: SoundEffect) => {
+    try {
+      await deleteUploadedEffect(effect.id);
+      forgetSoundEffect(effect.id);
+      setUploadedEffects(prev => prev.filter(e => e.id !== effect.id));
+      updateSettings({
+        soundEffects: settings.soundEffects.filter(cue => cue.effectId !== effect.id),
+        transitionEffectId: settings.transitionEffectId === effect.id ? null : settings.transitionEffectId,
+      });
+    } catch (error) {
+      console.error("Error removing sound effect:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove the sound effect");
+    }
+  };
+
+  return (
+    <div className="glass-panel p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Sound effects</div>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="btn-secondary px-2 py-1 text-xs disabled:opacity-50"
+        >
+          {isUploading ? "Adding..." : "Upload effect"}
+        </button>
+        <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleUpload} />
+      </div>
+
+      <div className="space-y-1">
+        {effects.map(effect => (
+          <div key={effect.id} className="flex items-center gap-2 rounded-md border border-border p-2 text-sm">
+            <button
+              type="button"
+              onClick={() => preview(effect)}
+              className="rounded-full p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted"
+              aria-label={`Preview ${effect.name}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="h-4 w-4">
+                <polygon points="6 4 20 12 6 20 6 4" />
+              </svg>
+            </button>
+            <span className="flex-1 min-w-0 truncate">{effect.name}</span>
+            <span className="text-xs text-muted-foreground">{effect.duration.toFixed(1)}s</span>
+            <button
+              type="button"
+              onClick={() => addCue(effect)}
+              disabled={projectDuration === 0}
+              className="text-xs text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Add at {currentTime.toFixed(1)}s
+            </button>
+            {!effect.bundled && (
+              <button
+                type="button"
+                onClick={() => removeEffect(effect)}
+                className="text-xs text-muted-foreground hover:text-destructive"
+                aria-label={`Remove ${effect.name}`}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {settings.soundEffects.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-border">
+          <span className="text-xs text-muted-foreground">On the timeline</span>
+          {settings.soundEffects.map(cue => (
+            <div key={cue.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 min-w-0 truncate">{getEffectName(cue.effectId)}</span>
+              <input
+                type="number"
+                min="0"
+                max={projectDuration}
+                step="0.1"
+                value={cue.time}
+                onChange={(e) => updateCues(settings.soundEffects.map(c =>
+                  c.id === cue.id ? { ...c, time: Math.max(0, parseFloat(e.target.value) || 0) } : c
+                ))}
+                className="input-field w-20 py-1 text-xs"
+                aria-label={`Start of ${getEffectName(cue.effectId)}, in seconds`}
+              />
+              <button
+                type="button"
+                onClick={() => updateCues(settings.soundEffects.filter(c => c.id !== cue.id))}
+                className="text-xs text-muted-foreground hover:text-destructive"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="transition-effect-select" className="text-sm font-medium">At every transition</label>
+        <select
+          id="transition-effect-select"
+          value={settings.transitionEffectId || ""}
+          onChange={(e) => updateSettings({ transitionEffectId: e.target.value || null })}
+          className="input-field"
+        >
+          <option value="">Nothing</option>
+          {effects.map(effect => (
+            <option key={effect.id} value={effect.id}>{effect.name}</option>
+          ))}
+        </select>
+        {settings.transitionEffectId && transition === "none" && (
+          <p className="text-xs text-muted-foreground">Pick a transition in the timeline to hear it</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <label htmlFor="sfx-volume-range" className="text-sm font-medium">Volume</label>
+          <span className="text-xs text-muted-foreground">{settings.sfxVolume}%</span>
+        </div>
+        <input
+          id="sfx-volume-range"
+          type="range"
+          min="0"
+          max="100"
+          step="1"
+          value={settings.sfxVolume}
+          onChange={(e) => updateSettings({ sfxVolume: parseInt(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SfxPanel;
@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useRef } from "react";
-import { CaptionSettings, FontOption, CaptionPosition, TextStyle } from "@/lib/types";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+import { CaptionSettings, CaptionSegment, FontOption, CaptionPosition, TextStyle } from "@/lib/types";
+import { parseSubtitles, SubtitleParseError } from "@/lib/subtitles";
+import { getLineAndColumn, MarkupError, parseScript } from "@/lib/markup";
+import { assignSpeakerColors, getSpeakers } from "@/lib/speakers";
 
 interface TextEditorProps {
   initialSettings: CaptionSettings;
   onChange: (settings: CaptionSettings) => void;
+  onSubtitlesImported?: (segments: CaptionSegment[], text: string) => void;
 }
 
 const FONT_OPTIONS: FontOption[] = [
@@ -20,11 +26,34 @@ const POSITION_OPTIONS: { label: string; value: CaptionPosition }[] = [
   { label: "Bottom", value: "bottom" },
 ];
 
+// Render the script with its markup errors marked, for the highlight layer behind the textarea
+const renderErrorHighlights = (text: string, errors: MarkupError[]): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+
+  [...errors].sort((a, b) => a.start - b.start).forEach((error, index) => {
+    if (error.start < position) return;
+    nodes.push(text.slice(position, error.start));
+    nodes.push(
+      <mark key={index} className="rounded-sm bg-destructive/20 text-transparent underline decoration-destructive decoration-wavy">
+        {text.slice(error.start, error.end)}
+      </mark>
+    );
+    position = error.end;
+  });
+  nodes.push(text.slice(position));
+  // A trailing newline needs content after it to take up a line, as it does in the textarea
+  nodes.push("\u200b");
+  return nodes;
+};
+
 const TextEditor: React.FC<TextEditorProps> = ({ 
   initialSettings, 
-  onChange
+  onChange,
+  onSubtitlesImported
 }) => {
   const [settings, setSettings] = useState<CaptionSettings>(initialSettings);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: SubtitleParseError[] } | null>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
 
   // Update the text without character limitation
@@ -43,13 +72,59 @@ const TextEditor: React.FC<TextEditorProps> = ({
     });
   };
 
-  // Update any caption setting
+  // Update any caption setting; speakers that appear while colour coding is on get a colour straight away
   const updateSettings = (newSettings: Partial<CaptionSettings>) => {
-    const updatedSettings = { ...settings, ...newSettings };
+    const merged = { ...settings, ...newSettings };
+    const updatedSettings = merged.colorBySpeaker ? assignSpeakerColors(merged) : merged;
     setSettings(updatedSettings);
     onChange(updatedSettings);
   };
 
+  // Replace the caption text and timings with the cues of a dropped SRT/VTT file
+  const onDrop = async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    
+    try {
+      const { segments, errors } = parseSubtitles(await file.text());
+      setImportErrors(errors.length > 0 ? { fileName: file.name, errors } : null);
+      
+      if (segments.length === 0) {
+        toast.error(`No valid cues found in ${file.name}`);
+        return;
+      }
+      
+      const text = segments.map(segment => segment.text).join(" ");
+      updateSettings({ text });
+      if (onSubtitlesImported) {
+        onSubtitlesImported(segments, text);
+      }
+      
+      if (errors.length > 0) {
+        toast.warning(`Imported ${segments.length} cues, skipped ${errors.length} malformed`);
+      } else {
+        toast.success(`Imported ${segments.length} cues from ${file.name}`);
+      }
+    } catch (error) {
+      console.error("Subtitle import error:", error);
+      toast.error(`Failed to read ${file.name}`);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+    onDrop,
+    accept: {
+      'application/x-subrip': ['.srt'],
+      'text/vtt': ['.vtt'],
+    },
+    multiple: false,
+    noClick: true,
+    noKeyboard: true,
+  });
+
+  const markupErrors = parseScript(settings.text).errors;
+  const speakers = getSpeakers(settings.text);
+
   // Auto-resize textarea based on content
   useEffect(() => {
     if (textAreaRef.current) {
@@ -60,23 +135,87 @@ const TextEditor: React.FC<TextEditorProps> = ({
 
   return (
     <div className="glass-panel p-5 space-y-4">
-      <div className="space-y-2">
+      <div className="space-y-2" {...getRootProps()}>
+        <input {...getInputProps()} />
         <div className="flex items-center justify-between">
           <label htmlFor="caption-text" className="text-sm font-medium">
             Caption Text
           </label>
+          <button
+            type="button"
+            onClick={open}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Import SRT/VTT
+          </button>
+        </div>
+        <div className="relative">
+          {/* Highlight layer, laid out exactly like the textarea above it */}
+          {markupErrors.length > 0 && (
+            <div
+              aria-hidden="true"
+              className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 text-sm text-transparent"
+            >
+              {renderErrorHighlights(settings.text, markupErrors)}
+            </div>
+          )}
+          <textarea
+            ref={textAreaRef}
+            id="caption-text"
+            value={settings.text}
+            onChange={handleTextChange}
+            placeholder="Enter your caption text here..."
+            aria-invalid={markupErrors.length > 0}
+            className={`input-field relative min-h-[100px] resize-none ${isDragActive ? 'border-primary/50 bg-primary/5' : ''}`}
+          />
         </div>
-        <textarea
-          ref={textAreaRef}
-          id="caption-text"
-          value={settings.text}
-          onChange={handleTextChange}
-          placeholder="Enter your caption text here..."
-          className="input-field min-h-[100px] resize-none"
-        />
         <div className="text-xs text-muted-foreground">
-          Maximum 3 words will be displayed per frame
+          {isDragActive
+            ? "Drop an SRT or VTT file to use its captions and timings"
+            : "Maximum 3 words will be displayed per frame • Drop an SRT or VTT file to import timed captions"}
         </div>
+        <div className="text-xs text-muted-foreground">
+          Voice markup: <span className="font-mono">[pause 500ms]</span>, <span className="font-mono">*emphasis*</span>,{" "}
+          <span className="font-mono">{"{word|pronunciation}"}</span> — spoken but not shown in captions.
+          Start lines with <span className="font-mono">A:</span> and <span className="font-mono">B:</span> for a dialogue
+        </div>
+        
+        {markupErrors.length > 0 && (
+          <ul className="rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs max-h-24 overflow-y-auto space-y-0.5">
+            {markupErrors.map((error, index) => {
+              const { line, column } = getLineAndColumn(settings.text, error.start);
+              return (
+                <li key={index}>
+                  <span className="font-mono">Line {line}:{column}</span> {error.message}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        
+        {importErrors && (
+          <div className="rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium">
+                Skipped {importErrors.errors.length} malformed {importErrors.errors.length === 1 ? "cue" : "cues"} in {importErrors.fileName}
+              </span>
+              <button
+                type="button"
+                onClick={() => setImportErrors(null)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                Dismiss
+              </button>
+            </div>
+            <ul className="max-h-24 overflow-y-auto space-y-0.5">
+              {importErrors.errors.map((error, index) => (
+                <li key={index}>
+                  <span className="font-mono">Line {error.line}:</span> {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -153,6 +292,36 @@ const TextEditor: React.FC<TextEditorProps> = ({
         </div>
       </div>
 
+      {speakers.length > 0 && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={!!settings.colorBySpeaker}
+              onChange={(e) => updateSettings({ colorBySpeaker: e.target.checked })}
+            />
+            <span>Colour captions by speaker</span>
+          </label>
+          {settings.colorBySpeaker && (
+            <div className="flex flex-wrap gap-3">
+              {speakers.map((speaker) => (
+                <label key={speaker} className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="color"
+                    value={settings.speakerColors?.[speaker] || settings.color}
+                    onChange={(e) => updateSettings({
+                      speakerColors: { ...settings.speakerColors, [speaker]: e.target.value }
+                    })}
+                    className="h-6 w-6 rounded-md cursor-pointer border border-input"
+                  />
+                  <span>{speaker}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <label className="text-sm font-medium">Text Style</label>
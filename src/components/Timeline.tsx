@@ -1,7 +1,9 @@
 
 import React, { useState } from "react";
-import { MediaItem, TransitionEffect } from "@/lib/types";
+import { AudioSettings, CaptionSegment, MediaItem, TransitionEffect } from "@/lib/types";
+import { SoundEffectTrack } from "@/lib/sfx";
 import { toast } from "sonner";
+import WaveformLanes from "@/components/WaveformLanes";
 
 interface TimelineProps {
   media: MediaItem[];
@@ -9,6 +11,12 @@ interface TimelineProps {
   onMediaRemove: (id: string) => void;
   transition: TransitionEffect;
   onTransitionChange: (transition: TransitionEffect) => void;
+  duration: number; // length of the video, in seconds
+  voiceover: AudioBuffer | null;
+  music: AudioBuffer | null;
+  audioSettings: AudioSettings; // how the music is trimmed and looped
+  soundEffects: SoundEffectTrack[];
+  captionSegments: CaptionSegment[];
 }
 
 type DragItem = {
@@ -31,6 +39,12 @@ const Timeline: React.FC<TimelineProps> = ({
   onMediaRemove,
   transition,
   onTransitionChange,
+  duration,
+  voiceover,
+  music,
+  audioSettings,
+  soundEffects,
+  captionSegments,
 }) => {
   const [draggedItem, setDraggedItem] = useState<DragItem | null>(null);
 
@@ -242,6 +256,16 @@ const Timeline: React.FC<TimelineProps> = ({
         </div>
       )}
       
+      <WaveformLanes
+        duration={duration}
+        media={media}
+        voiceover={voiceover}
+        music={music}
+        audioSettings={audioSettings}
+        soundEffects={soundEffects}
+        captionSegments={captionSegments}
+      />
+      
       {media.length > 0 && (
         <div className="mt-2 text-xs text-muted-foreground">
           Drag and drop to reorder • Total items: {media.length}
@@ -0,0 +1,67 @@
+import React from "react";
+import { UsageEvent } from "@/lib/types";
+import { formatCost, getMonthStart, summarizeUsage } from "@/lib/usage";
+
+interface UsagePanelProps {
+  projectId: string;
+  events: UsageEvent[];
+  budget: number | null;
+  onBudgetChange: (budget: number | null) => void;
+}
+
+// Characters and estimated cost for this project and for the month, against the monthly budget
+const UsagePanel: React.FC<UsagePanelProps> = ({ projectId, events, budget, onBudgetChange }) => {
+  const project = summarizeUsage(events.filter(event => event.projectId === projectId));
+  const monthStart = getMonthStart();
+  const month = summarizeUsage(events.filter(event => event.createdAt >= monthStart));
+  const budgetUsed = budget ? Math.min(100, (month.cost / budget) * 100) : 0;
+
+  return (
+    <div className="pt-2 border-t border-border space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Usage</span>
+        <label className="flex items-center space-x-1 text-muted-foreground">
+          <span>Monthly budget $</span>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={budget ?? ""}
+            onChange={(e) => onBudgetChange(e.target.value ? Number(e.target.value) : null)}
+            placeholder="None"
+            className="input-field w-20 px-2 py-1 text-xs"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="rounded-md border border-border p-2">
+          <div className="text-muted-foreground">This project</div>
+          <div className="font-medium">{project.billedCharacters.toLocaleString()} characters · {formatCost(project.cost)}</div>
+          <div className="text-muted-foreground">
+            {project.requests} {project.requests === 1 ? "request" : "requests"}, {project.cachedCharacters.toLocaleString()} characters from cache
+          </div>
+        </div>
+        <div className="rounded-md border border-border p-2">
+          <div className="text-muted-foreground">This month, all projects</div>
+          <div className="font-medium">{month.billedCharacters.toLocaleString()} characters · {formatCost(month.cost)}</div>
+          <div className="text-muted-foreground">
+            {budget ? `${formatCost(Math.max(0, budget - month.cost))} of ${formatCost(budget)} left` : "No budget set"}
+          </div>
+        </div>
+      </div>
+
+      {budget && (
+        <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full ${budgetUsed >= 100 ? "bg-destructive" : budgetUsed >= 80 ? "bg-yellow-500" : "bg-primary"}`}
+            style={{ width: `${budgetUsed}%` }}
+          />
+        </div>
+      )}
+      <p className="text-muted-foreground">Costs are estimates at list price; your provider's bill is authoritative</p>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,201 @@
+import React, { useRef, useState } from "react";
+import { toast } from "sonner";
+import { VoiceOption } from "@/lib/types";
+import { TtsProvider } from "@/lib/tts/provider";
+import { analyzeSample, checkSampleSet, hasBlockingIssues, SampleAnalysis, SampleIssue } from "@/lib/tts/voiceClone";
+import { decodeAudio } from "@/lib/render/audio";
+
+interface VoiceCloneFormProps {
+  provider: TtsProvider;
+  apiKey: string;
+  onVoiceAdded: (voice: VoiceOption) => void;
+}
+
+interface Sample {
+  file: File;
+  analysis: SampleAnalysis;
+}
+
+const IssueList: React.FC<{ issues: SampleIssue[] }> = ({ issues }) => (
+  <>
+    {issues.map((issue, index) => (
+      <div key={index} className={issue.severity === "error" ? "text-destructive" : "text-yellow-600"}>
+        {issue.message}
+      </div>
+    ))}
+  </>
+);
+
+// Upload recordings of a speaker to create a custom voice in the provider account
+const VoiceCloneForm: React.FC<VoiceCloneFormProps> = ({ provider, apiKey, onVoiceAdded }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [consent, setConsent] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsAnalyzing(true);
+    const added: Sample[] = [];
+    for (const file of files) {
+      try {
+        added.push({ file, analysis: analyzeSample(file, await decodeAudio(file)) });
+      } catch (error) {
+        console.error("Error decoding voice sample:", error);
+        toast.error(`${file.name} isn't an audio file this browser can read`);
+      }
+    }
+    setSamples(prev => [...prev, ...added]);
+    setIsAnalyzing(false);
+  };
+
+  const removeSample = (sample: Sample) => {
+    setSamples(prev => prev.filter(s => s !== sample));
+  };
+
+  const reset = () => {
+    setName("");
+    setDescription("");
+    setSamples([]);
+    setConsent(false);
+    setIsOpen(false);
+  };
+
+  const analyses = samples.map(sample => sample.analysis);
+  const setIssues = samples.length > 0 ? checkSampleSet(analyses) : [];
+  const canSubmit = !!name.trim() && consent && samples.length > 0 && !hasBlockingIssues(analyses) && !isUploading;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!provider.addVoice || !canSubmit) return;
+
+    setIsUploading(true);
+    try {
+      const voice = await provider.addVoice({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        samples: samples.map(sample => sample.file),
+        apiKey,
+      });
+      toast.success(`Created the voice "${voice.name}"`);
+      onVoiceAdded(voice);
+      reset();
+    } catch (error) {
+      console.error("Error cloning voice:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create the voice");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        disabled={!apiKey}
+        className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+      >
+        + Clone a voice from recordings
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-md border border-border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Clone a voice</div>
+        <button type="button" onClick={reset} className="text-xs text-muted-foreground hover:text-foreground">
+          Cancel
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Voice name"
+          aria-label="Voice name"
+          className="input-field"
+        />
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          aria-label="Voice description"
+          className="input-field"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">
+            Clean recordings of one speaker, with no music or background noise
+          </span>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isAnalyzing}
+            className="btn-secondary px-2 py-1 text-xs disabled:opacity-50"
+          >
+            {isAnalyzing ? "Checking..." : "Add samples"}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+          />
+        </div>
+
+        {samples.length > 0 && (
+          <ul className="max-h-40 overflow-y-auto space-y-1 pr-1">
+            {samples.map((sample, index) => (
+              <li key={index} className="flex items-start gap-2 rounded-md border border-border p-2 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-medium">{sample.file.name}</div>
+                  <div className="text-muted-foreground">{sample.analysis.duration.toFixed(1)}s</div>
+                  <IssueList issues={sample.analysis.issues} />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeSample(sample)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${sample.file.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="text-xs">
+          <IssueList issues={setIssues} />
+        </div>
+      </div>
+
+      <label className="flex items-start space-x-2 text-xs">
+        <input type="checkbox" checked={consent} onChange={(e) => setConsent(e.target.checked)} className="mt-0.5" />
+        <span>
+          I own these recordings or have the speaker's permission to clone their voice, and will not use it to
+          impersonate or mislead
+        </span>
+      </label>
+
+      <button type="submit" disabled={!canSubmit} className="btn-primary w-full disabled:opacity-50">
+        {isUploading ? "Creating voice..." : "Create voice"}
+      </button>
+    </form>
+  );
+};
+
+export default VoiceCloneForm;
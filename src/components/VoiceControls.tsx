@@ -1,6 +1,31 @@
 
 import React, { useState, useRef, useEffect } from "react";
-import { VoiceOption, VoiceSettings } from "@/lib/types";
+import {
+  CaptionSegment,
+  PronunciationEntry,
+  SpeakerVoice,
+  TtsProviderId,
+  UsageEvent,
+  Voiceover,
+  VoiceOption,
+  VoiceSettings
+} from "@/lib/types";
+import { getTtsProvider, TTS_PROVIDERS } from "@/lib/tts/providers";
+import { forgetVoices, loadVoices } from "@/lib/tts/voices";
+import { getSpeechInputs, isSpeechCached } from "@/lib/tts/cache";
+import { parseScript, renderScript } from "@/lib/markup";
+import { mapWithConcurrency, MAX_CHUNK_CHARS, SpeechChunk, splitIntoChunks } from "@/lib/tts/chunks";
+import { TtsError } from "@/lib/tts/errors";
+import { getSpeakers, getSpeakerSettings } from "@/lib/speakers";
+import { ChunkAudio, StitchedVoiceover, stitchVoiceover, synthesizeChunk } from "@/lib/tts/voiceover";
+import { KeyStatus } from "@/lib/tts/provider";
+import { estimateCost, formatCost, getMonthStart, summarizeUsage } from "@/lib/usage";
+import { fetchUsageEvents, getMonthlyBudget, recordUsageEvent, setMonthlyBudget } from "@/lib/usageStore";
+import ApiKeyVault from "@/components/ApiKeyVault";
+import NarrationRecorder from "@/components/NarrationRecorder";
+import UsagePanel from "@/components/UsagePanel";
+import VoiceCloneForm from "@/components/VoiceCloneForm";
+import VoicePicker from "@/components/VoicePicker";
 import { toast } from "sonner";
 
 interface VoiceControlsProps {
@@ -9,18 +34,35 @@ interface VoiceControlsProps {
   apiKey: string;
   onApiKeyChange: (key: string) => void;
   captionText?: string;
-  onCaptionTimeUpdate?: (currentTime: number, captionText: string) => void;
+  importedSegments?: CaptionSegment[];
+  onCaptionTimeUpdate?: (currentTime: number, captionText: string, speaker?: string) => void;
   onPlayingChange?: (isPlaying: boolean) => void;
+  onVoiceoverChange?: (voiceover: Voiceover | null) => void;
+  lexicon?: PronunciationEntry[];
+  projectId: string;
+  volume?: number; // playback level of the voiceover, from 0 to 1
 }
 
-// Sample voice options (would be fetched from API in production)
-const VOICE_OPTIONS: VoiceOption[] = [
-  { id: "EXAVITQu4vr4xnSDxMaL", name: "Sarah", gender: "female" },
-  { id: "XB0fDUnXU5powFXDhCwa", name: "Charlotte", gender: "female" },
-  { id: "pFZP5JQG7iQjIQuC4Bku", name: "Lily", gender: "female" },
-  { id: "TX3LPaxmHKxFdv7VOQHJ", name: "Liam", gender: "male" },
-  { id: "iP95p4xoKVk53GoZ742B", name: "Chris", gender: "male" },
-];
+interface ChunkState {
+  chunk: SpeechChunk;
+  status: "pending" | "generating" | "done" | "error";
+  audio?: ChunkAudio;
+  error?: string;
+}
+
+const DEFAULT_PREVIEW_TEXT = "This is a sample voice preview. Adjust the settings to customize how your captions will sound.";
+
+// Wait this long after the API key stops changing before fetching its voices
+const VOICE_FETCH_DEBOUNCE_MS = 500;
+
+const formatKeyStatus = (status: KeyStatus): string => {
+  if (!status.valid) return `Key rejected: ${status.message || "check that it was copied correctly"}`;
+  if (status.characterLimit === undefined) return "Key valid (this key can't read its quota)";
+
+  const remaining = Math.max(0, status.characterLimit - (status.charactersUsed || 0));
+  const resets = status.resetsAt ? `, resets ${new Date(status.resetsAt).toLocaleDateString()}` : "";
+  return `Key valid: ${remaining.toLocaleString()} of ${status.characterLimit.toLocaleString()} characters left${resets}`;
+};
 
 const VoiceControls: React.FC<VoiceControlsProps> = ({
   settings,
@@ -28,21 +70,145 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
   apiKey,
   onApiKeyChange,
   captionText,
+  importedSegments,
   onCaptionTimeUpdate,
-  onPlayingChange
+  onPlayingChange,
+  onVoiceoverChange,
+  lexicon = [],
+  projectId,
+  volume = 1
 }) => {
+  // Synthesize the voiceover, or record it from the microphone
+  const [mode, setMode] = useState<"tts" | "record">("tts");
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [showApiKey, setShowApiKey] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [captionSegments, setCaptionSegments] = useState<{start: number; end: number; text: string}[]>([]);
+  const [captionSegments, setCaptionSegments] = useState<CaptionSegment[]>([]);
   const [currentCaptionIndex, setCurrentCaptionIndex] = useState<number>(-1);
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [voicesLoading, setVoicesLoading] = useState(false);
+  const [voicesError, setVoicesError] = useState<string | null>(null);
+  const [keyStatus, setKeyStatus] = useState<KeyStatus | null>(null);
+  // Inputs the loaded audio was generated from, to tell when it no longer matches
+  const [loadedInputs, setLoadedInputs] = useState<string | null>(null);
+  // This project's synthesis requests and everyone else's this month, for the totals and the budget
+  const [usageEvents, setUsageEvents] = useState<UsageEvent[]>([]);
+  const [budget, setBudget] = useState<number | null>(getMonthlyBudget);
+  const [chunks, setChunks] = useState<ChunkState[]>([]);
+  // Lowered when the provider rejects a sentence as too long
+  const [maxChunkChars, setMaxChunkChars] = useState(MAX_CHUNK_CHARS);
+  // Sentence regenerations can finish in any order, so each builds on the latest chunks rather than its render's
+  const chunksRef = useRef<ChunkState[]>([]);
+  chunksRef.current = chunks;
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // The audio listeners are attached once, so they read the latest segments through refs
+  const captionSegmentsRef = useRef<CaptionSegment[]>([]);
+  const currentCaptionIndexRef = useRef<number>(-1);
+  captionSegmentsRef.current = captionSegments;
+  currentCaptionIndexRef.current = currentCaptionIndex;
+  
+  const provider = getTtsProvider(settings.provider);
+  const textToVoice = captionText || DEFAULT_PREVIEW_TEXT;
+  const speakers = getSpeakers(textToVoice);
+  // Any provider that can time a recording against its script, for captions on recorded narration
+  const aligner = Object.values(TTS_PROVIDERS).find(option => option.alignSpeech && (!option.requiresApiKey || apiKey)) || null;
+  // Gaps don't change the synthesized chunks, only how they are stitched together
+  const speechInputs = JSON.stringify([
+    getSpeechInputs(textToVoice, settings),
+    settings.speakers || {},
+    settings.sentenceGap,
+    settings.paragraphGap,
+    lexicon.map(entry => [entry.term, entry.pronunciation, entry.kind]),
+  ]);
   
   const updateSettings = (newSettings: Partial<VoiceSettings>) => {
     onUpdate({ ...settings, ...newSettings });
   };
 
+  // A new voice is in the account but not in the cached list, so fetch it again and select the voice
+  const handleVoiceAdded = async (voice: VoiceOption) => {
+    forgetVoices(provider, apiKey);
+    const list = await loadVoices(provider, apiKey).catch((): VoiceOption[] => []);
+    setVoices(list.some(v => v.id === voice.id) ? list : [voice, ...list]);
+    updateSettings({ voiceId: voice.id });
+  };
+
+  // Load the voices of the selected provider, waiting for the API key to stop changing before fetching
+  useEffect(() => {
+    let cancelled = false;
+    setVoicesLoading(true);
+    setVoicesError(null);
+
+    const timeout = setTimeout(() => {
+      loadVoices(provider, apiKey).then(list => {
+        if (!cancelled) setVoices(list);
+      }).catch(error => {
+        console.error("Error loading voices:", error);
+        if (!cancelled) {
+          setVoices([]);
+          setVoicesError(error instanceof Error ? error.message : "Failed to load voices");
+        }
+      }).finally(() => {
+        if (!cancelled) setVoicesLoading(false);
+      });
+    }, provider.requiresApiKey ? VOICE_FETCH_DEBOUNCE_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [provider, apiKey]);
+
+  // Check the key and the quota left on it, again whenever characters have been billed
+  useEffect(() => {
+    setKeyStatus(null);
+    if (!provider.getKeyStatus || (provider.requiresApiKey && !apiKey)) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      provider.getKeyStatus(apiKey).then(status => {
+        if (!cancelled) setKeyStatus(status);
+      }).catch(error => {
+        console.error("Error checking API key:", error);
+      });
+    }, VOICE_FETCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [provider, apiKey, usageEvents.length]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUsageEvents(projectId, getMonthStart()).then(events => {
+      if (!cancelled) setUsageEvents(events);
+    }).catch(error => {
+      console.error("Error loading usage:", error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Voice ids only make sense within a provider, so switching picks the new provider's first voice and
+  // sends every speaker back to it
+  const handleProviderChange = async (id: TtsProviderId) => {
+    if (id === provider.id) return;
+    const list = await loadVoices(TTS_PROVIDERS[id], apiKey).catch((): VoiceOption[] => []);
+    onUpdate({ ...settings, provider: id, voiceId: list[0]?.id || "", speakers: undefined });
+  };
+
+  // Give a dialogue speaker its own voice, or an empty voice id to fall back to the main voice
+  const updateSpeakerVoice = (speaker: string, update: Partial<SpeakerVoice>) => {
+    const current = settings.speakers?.[speaker] || { voiceId: "", speed: settings.speed, pitch: settings.pitch };
+    const voice = { ...current, ...update };
+    const others = { ...settings.speakers };
+    delete others[speaker];
+    updateSettings({ speakers: voice.voiceId ? { ...others, [speaker]: voice } : others });
+  };
+
   useEffect(() => {
     // Create audio element if it doesn't exist
     if (!audioRef.current) {
@@ -75,6 +241,11 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
     };
   }, []);
 
+  // Play the voiceover at the level it gets in the mix
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = volume;
+  }, [volume]);
+
   // Handle audio play event
   const handleAudioPlay = () => {
     console.log("Audio started playing");
@@ -93,6 +264,14 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
     }
   };
 
+  // Timings imported from a subtitle file replace the generated ones
+  useEffect(() => {
+    if (importedSegments && importedSegments.length > 0) {
+      setCaptionSegments(importedSegments);
+      setCurrentCaptionIndex(-1);
+    }
+  }, [importedSegments]);
+
   // Update audio URL when it changes
   useEffect(() => {
     if (audioUrl && audioRef.current) {
@@ -101,68 +280,8 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
     }
   }, [audioUrl]);
 
-  // Function to split text into optimal subtitle segments
-  const splitTextIntoSegments = (text: string): string[] => {
-    if (!text) return [];
-    
-    // Split text into sentences
-    const sentences = text.replace(/([.!?])\s+/g, "$1|").split("|");
-    
-    const segments: string[] = [];
-    
-    sentences.forEach(sentence => {
-      if (!sentence.trim()) return;
-      
-      // Split sentence into words
-      const words = sentence.trim().split(/\s+/);
-      
-      // Group words into segments of 2-3 words each
-      for (let i = 0; i < words.length; i += 3) {
-        const segmentWords = words.slice(i, Math.min(i + 3, words.length));
-        if (segmentWords.length > 0) {
-          segments.push(segmentWords.join(' '));
-        }
-      }
-    });
-    
-    return segments;
-  };
-
-  // Generate frame-accurate subtitle timings
-  const generateSubtitleTimings = (text: string, durationEstimate: number) => {
-    if (!text) return [];
-    
-    console.log("Generating subtitle timings for:", text);
-    console.log("Estimated duration:", durationEstimate);
-    
-    // Split text into segments
-    const segments = splitTextIntoSegments(text);
-    console.log("Text segments:", segments);
-    
-    if (segments.length === 0) return [];
-    
-    const timings: {start: number; end: number; text: string}[] = [];
-    
-    // Calculate time per segment
-    const timePerSegment = durationEstimate / segments.length;
-    
-    // Generate timing for each segment with a small gap between segments
-    segments.forEach((segment, index) => {
-      const start = index * timePerSegment;
-      const end = (index + 1) * timePerSegment - 0.05; // Small gap between segments
-      
-      timings.push({
-        start,
-        end,
-        text: segment
-      });
-    });
-    
-    console.log("Generated timings:", timings);
-    return timings;
-  };
-
   const handleTimeUpdate = () => {
+    const captionSegments = captionSegmentsRef.current;
     if (!audioRef.current || captionSegments.length === 0) return;
     
     const currentTime = audioRef.current.currentTime;
@@ -173,13 +292,13 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
       const segment = captionSegments[i];
       if (currentTime >= segment.start && currentTime <= segment.end) {
         foundSegment = true;
-        if (currentCaptionIndex !== i) {
+        if (currentCaptionIndexRef.current !== i) {
+          currentCaptionIndexRef.current = i;
           setCurrentCaptionIndex(i);
-          console.log(`Caption at ${currentTime.toFixed(2)}s:`, segment.text);
           
           // Call the callback to update the caption in the parent component
           if (onCaptionTimeUpdate) {
-            onCaptionTimeUpdate(currentTime, segment.text);
+            onCaptionTimeUpdate(currentTime, segment.text, segment.speaker);
           }
         }
         break;
@@ -187,7 +306,8 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
     }
     
     // Clear the caption if we're between segments
-    if (!foundSegment && currentCaptionIndex !== -1) {
+    if (!foundSegment && currentCaptionIndexRef.current !== -1) {
+      currentCaptionIndexRef.current = -1;
       setCurrentCaptionIndex(-1);
       
       // Callback to clear captions in parent
@@ -230,9 +350,214 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
     }
   };
 
-  const playPreview = async () => {
-    if (!apiKey) {
-      toast.error("Please enter your ElevenLabs API key");
+  // Drop the generated audio so the next preview synthesizes (or fetches from the cache) the current inputs
+  const clearVoiceover = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.removeAttribute("src");
+    }
+    if (audioUrl) {
+      URL.revokeObjectURL(audioUrl);
+    }
+    setAudioUrl(null);
+    setLoadedInputs(null);
+    setChunks([]);
+    setCurrentCaptionIndex(-1);
+    if (onVoiceoverChange) {
+      onVoiceoverChange(null);
+    }
+    if (onCaptionTimeUpdate) {
+      onCaptionTimeUpdate(0, "");
+    }
+  };
+  const clearVoiceoverRef = useRef(clearVoiceover);
+  clearVoiceoverRef.current = clearVoiceover;
+
+  // Changing the text, voice, speed, pitch, gaps or lexicon invalidates the loaded audio
+  useEffect(() => {
+    if (loadedInputs && loadedInputs !== speechInputs) {
+      clearVoiceoverRef.current();
+    }
+  }, [loadedInputs, speechInputs]);
+
+  const updateChunk = (index: number, update: Partial<ChunkState>) => {
+    setChunks(prev => prev.map((state, i) => (i === index ? { ...state, ...update } : state)));
+  };
+
+  // Record a synthesis request against the project. Recording is best effort and never blocks the voiceover
+  const recordUsage = (text: string, chunkSettings: VoiceSettings, cached: boolean) => {
+    const event: UsageEvent = {
+      projectId,
+      provider: provider.id,
+      voiceId: chunkSettings.voiceId,
+      characters: text.length,
+      cached,
+      createdAt: Date.now(),
+    };
+    setUsageEvents(prev => [...prev, event]);
+    recordUsageEvent(event).catch(error => {
+      console.warn("Failed to record TTS usage:", error);
+    });
+  };
+
+  const handleBudgetChange = (value: number | null) => {
+    setMonthlyBudget(value);
+    setBudget(getMonthlyBudget());
+  };
+
+  // Check the estimated cost of the requests against the monthly budget. Cached sentences cost nothing unless
+  // they are being regenerated. Going over shows a warning whose action generates anyway
+  const isWithinBudget = async (
+    requests: { text: string; settings: VoiceSettings }[],
+    { bypassCache, proceed }: { bypassCache: boolean; proceed: () => void }
+  ): Promise<boolean> => {
+    if (!budget) return true;
+
+    const cached = bypassCache
+      ? requests.map(() => false)
+      : await Promise.all(requests.map(request => isSpeechCached(request.text, request.settings)));
+    const characters = requests.reduce((sum, request, index) => sum + (cached[index] ? 0 : request.text.length), 0);
+    const cost = estimateCost(provider.id, characters);
+    const spent = summarizeUsage(usageEvents.filter(event => event.createdAt >= getMonthStart())).cost;
+    if (cost === 0 || spent + cost <= budget) return true;
+
+    toast.warning(
+      `This needs about ${formatCost(cost)} of speech, taking this month to ${formatCost(spent + cost)} against your ${formatCost(budget)} budget`,
+      { action: { label: "Generate anyway", onClick: proceed }, duration: 10000 }
+    );
+    return false;
+  };
+
+  // Load a voiceover, synthesized or recorded, for preview playback and export
+  const loadVoiceover = (stitched: StitchedVoiceover): string => {
+    if (audioUrl) {
+      URL.revokeObjectURL(audioUrl);
+    }
+    const newAudioUrl = URL.createObjectURL(stitched.blob);
+    setAudioUrl(newAudioUrl);
+    
+    // Caption segments follow the spoken word boundaries when the provider returns an alignment
+    const timings = importedSegments && importedSegments.length > 0
+      ? importedSegments
+      : stitched.segments;
+    setCaptionSegments(timings);
+    setCurrentCaptionIndex(-1);
+    
+    // Share the voiceover so it can be mixed into the exported video
+    if (onVoiceoverChange) {
+      onVoiceoverChange({
+        blob: stitched.blob,
+        url: newAudioUrl,
+        buffer: stitched.buffer,
+        duration: stitched.duration,
+        segments: timings
+      });
+    }
+
+    if (audioRef.current) {
+      audioRef.current.src = newAudioUrl;
+    }
+    return newAudioUrl;
+  };
+
+  // Stitch the chunk audio into the voiceover
+  const applyVoiceover = (chunkList: SpeechChunk[], audio: ChunkAudio[]): string => {
+    return loadVoiceover(stitchVoiceover(chunkList, audio, settings));
+  };
+
+  // A recording isn't tied to the speech inputs, so editing the voice settings leaves it loaded
+  const handleNarrationTake = (voiceover: StitchedVoiceover) => {
+    audioRef.current?.pause();
+    setLoadedInputs(null);
+    setChunks([]);
+    loadVoiceover(voiceover);
+  };
+
+  const handleModeChange = (next: "tts" | "record") => {
+    if (next === mode) return;
+    clearVoiceover();
+    setMode(next);
+  };
+
+  // What to tell the user about a failed request, and the action most likely to fix it
+  const getRecovery = (
+    error: TtsError,
+    retry: () => void
+  ): { description: string; action?: { label: string; onClick: () => void } } => {
+    switch (error.code) {
+      case "invalid_key":
+        return provider.requiresApiKey
+          ? {
+            description: `Check that the ${provider.name} key was copied in full and is allowed to use text to speech`,
+            action: { label: "Edit key", onClick: () => document.getElementById("provider-api-key")?.focus() },
+          }
+          : {
+            description: "The workspace key was rejected. Use your own key until it is fixed",
+            action: { label: "Use my key", onClick: () => handleProviderChange("elevenlabs") },
+          };
+      case "quota_exceeded":
+        return {
+          description: "Wait for the quota to reset or upgrade the plan. The browser voice is free",
+          action: provider.id === "local"
+            ? undefined
+            : { label: "Use browser voice", onClick: () => handleProviderChange("local") },
+        };
+      case "voice_not_found": {
+        const fallback = voices.find(voice => voice.id !== settings.voiceId);
+        return {
+          description: "The voice may have been removed from the account. Pick another voice",
+          action: fallback
+            ? { label: `Use ${fallback.name}`, onClick: () => updateSettings({ voiceId: fallback.id, speakers: undefined }) }
+            : undefined,
+        };
+      }
+      case "text_too_long":
+        return {
+          description: "Long sentences can be split into shorter requests",
+          action: { label: "Split and retry", onClick: () => {
+            const limit = Math.max(100, Math.floor(maxChunkChars / 2));
+            setMaxChunkChars(limit);
+            clearVoiceover();
+            playPreview({ maxChars: limit });
+          } },
+        };
+      case "rate_limited":
+      case "unavailable":
+      case "network":
+        return {
+          description: "Still failing after several retries. Try again in a moment",
+          action: { label: "Retry", onClick: retry },
+        };
+      default:
+        return { description: "Check the script and voice settings, then try again" };
+    }
+  };
+
+  const showTtsError = (error: unknown, message: string, retry: () => void) => {
+    if (error instanceof TtsError) {
+      const { description, action } = getRecovery(error, retry);
+      toast.error(message, { description, action, duration: 10000 });
+    } else {
+      toast.error(message);
+    }
+  };
+
+  const playPreview = async ({
+    ignoreBudget = false,
+    maxChars = maxChunkChars,
+  }: { ignoreBudget?: boolean; maxChars?: number } = {}) => {
+    if (provider.requiresApiKey && !apiKey) {
+      toast.error(`Please enter your ${provider.name} API key`);
+      return;
+    }
+
+    if (!settings.voiceId) {
+      toast.error("Please choose a voice");
+      return;
+    }
+
+    if (parseScript(textToVoice).errors.length > 0) {
+      toast.error("Fix the highlighted script markup before generating the voice");
       return;
     }
 
@@ -242,75 +567,61 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
       return;
     }
 
+    // The first sentence that failed, to say which one the error is about
+    let failedIndex: number | null = null;
     setIsLoading(true);
 
     try {
-      const selectedVoice = VOICE_OPTIONS.find(v => v.id === settings.voiceId);
-      const textToVoice = captionText || "This is a sample voice preview. Adjust the settings to customize how your captions will sound.";
-      
-      // Clear previous URL if exists
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-        setAudioUrl(null);
-      }
+      const selectedVoice = voices.find(v => v.id === settings.voiceId);
       
-      console.log("Generating speech with ElevenLabs API...");
-      console.log("Voice ID:", settings.voiceId);
-      console.log("Speed:", settings.speed);
-      console.log("Pitch:", settings.pitch);
-      console.log("Text to convert:", textToVoice);
-      
-      const response = await fetch("https://api.elevenlabs.io/v1/text-to-speech/" + settings.voiceId, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "xi-api-key": apiKey
-        },
-        body: JSON.stringify({
-          text: textToVoice,
-          model_id: "eleven_monolingual_v1",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: 0.0,
-            use_speaker_boost: true,
-            speaking_rate: settings.speed,
-            pitch: settings.pitch / 100 // ElevenLabs uses -1 to 1 range
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.detail?.message || `API error: ${response.status}`);
+      // Each sentence is synthesized on its own so it can be regenerated without touching the rest
+      const chunkList = splitIntoChunks(textToVoice, maxChars);
+      const requests = chunkList.map(chunk => ({
+        text: renderScript(chunk.text, provider.scriptCapabilities, lexicon),
+        settings: getSpeakerSettings(settings, chunk.speaker),
+      }));
+      if (!ignoreBudget && !(await isWithinBudget(requests, {
+        bypassCache: false,
+        proceed: () => playPreview({ ignoreBudget: true, maxChars }),
+      }))) {
+        return;
       }
 
-      // Get blob from response
-      const audioBlob = await response.blob();
-      const newAudioUrl = URL.createObjectURL(audioBlob);
-      setAudioUrl(newAudioUrl);
+      setChunks(chunkList.map(chunk => ({ chunk, status: "pending" })));
+      setLoadedInputs(speechInputs);
       
-      // Get approximate duration from blob size (rough estimate)
-      const estimatedDuration = (audioBlob.size / 32000) * settings.speed; // rough estimate based on 32kbps audio
-      console.log("Estimated audio duration:", estimatedDuration, "seconds");
+      const audio = await mapWithConcurrency(chunkList, provider.maxConcurrency, async (chunk, index) => {
+        updateChunk(index, { status: "generating" });
+        try {
+          const { text, settings: chunkSettings } = requests[index];
+          const result = await synthesizeChunk(provider, text, chunkSettings, { apiKey });
+          recordUsage(text, chunkSettings, result.cached);
+          updateChunk(index, { status: "done", audio: result });
+          return result;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to generate speech";
+          updateChunk(index, { status: "error", error: message });
+          if (failedIndex === null) failedIndex = index;
+          throw error;
+        }
+      });
       
-      // Generate timings for frame-accurate subtitles
-      const timings = generateSubtitleTimings(textToVoice, estimatedDuration);
-      setCaptionSegments(timings);
-      setCurrentCaptionIndex(-1);
+      applyVoiceover(chunkList, audio);
       
-      // Set up audio element
       if (audioRef.current) {
-        audioRef.current.src = newAudioUrl;
-        
-        // Play the audio
-        toast.success(`Playing preview with ${selectedVoice?.name || 'selected voice'}`);
+        const cached = audio.every(result => result.cached);
+        toast.success(`Playing ${cached ? "cached " : ""}preview with ${selectedVoice?.name || 'selected voice'}`);
         await audioRef.current.play();
       }
       
     } catch (error) {
       console.error("Error playing voice preview:", error);
-      toast.error(error instanceof Error ? error.message : "Failed to play voice preview");
+      const message = error instanceof Error ? error.message : "Failed to play voice preview";
+      showTtsError(
+        error,
+        failedIndex === null ? message : `Sentence ${failedIndex + 1} failed: ${message}`,
+        () => playPreview({ maxChars })
+      );
       setIsPlaying(false);
       if (onPlayingChange) {
         onPlayingChange(false);
@@ -320,6 +631,46 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
     }
   };
 
+  // Generate a new take of one sentence and splice it into the voiceover
+  const regenerateChunk = async (index: number, { ignoreBudget = false }: { ignoreBudget?: boolean } = {}) => {
+    const target = chunksRef.current[index];
+    if (!target) return;
+
+    const spokenText = renderScript(target.chunk.text, provider.scriptCapabilities, lexicon);
+    const chunkSettings = getSpeakerSettings(settings, target.chunk.speaker);
+    if (!ignoreBudget && !(await isWithinBudget([{ text: spokenText, settings: chunkSettings }], {
+      bypassCache: true,
+      proceed: () => regenerateChunk(index, { ignoreBudget: true }),
+    }))) {
+      return;
+    }
+
+    updateChunk(index, { status: "generating", error: undefined });
+
+    try {
+      const result = await synthesizeChunk(provider, spokenText, chunkSettings, { apiKey, bypassCache: true });
+      recordUsage(spokenText, chunkSettings, false);
+
+      const next = chunksRef.current.map((state, i) =>
+        i === index ? { ...state, status: "done" as const, audio: result, error: undefined } : state
+      );
+      chunksRef.current = next;
+      setChunks(next);
+
+      // Once every sentence has audio the voiceover can be rebuilt
+      if (next.every(state => state.audio)) {
+        audioRef.current?.pause();
+        applyVoiceover(next.map(state => state.chunk), next.map(state => state.audio as ChunkAudio));
+        toast.success(`Sentence ${index + 1} regenerated`);
+      }
+    } catch (error) {
+      console.error("Error regenerating sentence:", error);
+      const message = error instanceof Error ? error.message : "Failed to generate speech";
+      updateChunk(index, { status: "error", error: message });
+      showTtsError(error, `Sentence ${index + 1} failed: ${message}`, () => regenerateChunk(index, { ignoreBudget: true }));
+    }
+  };
+
   const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     updateSettings({ speed: parseFloat(e.target.value) });
   };
@@ -333,129 +684,227 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
 
   return (
     <div className="glass-panel p-5 space-y-4">
-      <div className="space-y-2">
-        <label htmlFor="elevenlabs-api-key" className="text-sm font-medium">
-          ElevenLabs API Key
-        </label>
-        <div className="relative">
-          <input
-            id="elevenlabs-api-key"
-            type={showApiKey ? "text" : "password"}
-            value={apiKey}
-            onChange={(e) => onApiKeyChange(e.target.value)}
-            placeholder="Enter your ElevenLabs API key"
-            className="input-field pr-10"
-          />
+      <div className="grid grid-cols-2 gap-2">
+        {(["tts", "record"] as const).map((option) => (
           <button
+            key={option}
             type="button"
-            onClick={() => setShowApiKey(!showApiKey)}
-            className="absolute inset-y-0 right-0 flex items-center pr-3 text-muted-foreground hover:text-foreground"
+            onClick={() => handleModeChange(option)}
+            className={`rounded-md border p-2 text-sm transition-all 
+              ${mode === option 
+                ? "border-primary bg-primary/5" 
+                : "border-border hover:border-input"}`}
           >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className="h-4 w-4"
-            >
-              {showApiKey ? (
-                <>
-                  <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z" />
-                  <circle cx="12" cy="12" r="3" />
-                </>
-              ) : (
-                <>
-                  <path d="M9.88 9.88a3 3 0 1 0 4.24 4.24" />
-                  <path d="M10.73 5.08A10.43 10.43 0 0 1 12 5c7 0 10 7 10 7a13.16 13.16 0 0 1-1.67 2.68" />
-                  <path d="M6.61 6.61A13.526 13.526 0 0 0 2 12s3 7 10 7a9.74 9.74 0 0 0 5.39-1.61" />
-                  <line x1="2" x2="22" y1="2" y2="22" />
-                </>
-              )}
-            </svg>
+            {option === "tts" ? "Text to speech" : "Record narration"}
           </button>
-        </div>
-        <p className="text-xs text-muted-foreground">
-          Your API key is used only for voice generation and is not stored on our servers
-        </p>
+        ))}
       </div>
 
-      <div className="space-y-2">
-        <label htmlFor="voice-select" className="text-sm font-medium">
-          Voice
-        </label>
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-          {VOICE_OPTIONS.map((voice) => (
-            <button
-              key={voice.id}
-              type="button"
-              onClick={() => updateSettings({ voiceId: voice.id })}
-              className={`flex items-center justify-between rounded-md border p-3 text-sm transition-all 
-                ${settings.voiceId === voice.id 
-                  ? "border-primary bg-primary/5" 
-                  : "border-border hover:border-input"}`}
-            >
-              <div className="flex items-center">
-                <span className="mr-2 h-2 w-2 rounded-full bg-primary/60"></span>
-                <span>{voice.name}</span>
-              </div>
-              <span className="text-xs text-muted-foreground capitalize">{voice.gender}</span>
-            </button>
-          ))}
-        </div>
-      </div>
+      {mode === "record" && (
+        <NarrationRecorder script={captionText || ""} aligner={aligner} apiKey={apiKey} onUseTake={handleNarrationTake} />
+      )}
 
-      <div className="space-y-4 pt-2">
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <label htmlFor="speed-range" className="text-sm font-medium">
-              Speed
-            </label>
-            <span className="text-xs text-muted-foreground">{settings.speed.toFixed(1)}x</span>
-          </div>
-          <input
-            id="speed-range"
-            type="range"
-            min="0.8"
-            max="1.5"
-            step="0.1"
-            value={settings.speed}
-            onChange={handleSpeedChange}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-muted-foreground">
-            <span>Slower (0.8x)</span>
-            <span>Faster (1.5x)</span>
+      {mode === "tts" && (
+        <>
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Voice Provider</div>
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(TTS_PROVIDERS).map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => handleProviderChange(option.id)}
+                  className={`rounded-md border p-2 text-sm transition-all 
+                    ${provider.id === option.id 
+                      ? "border-primary bg-primary/5" 
+                      : "border-border hover:border-input"}`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+            {provider.id === "elevenlabs-proxy" && (
+              <p className="text-xs text-muted-foreground">
+                Uses the workspace's ElevenLabs key through our server, so no key is handled in the browser. Requires signing in.
+              </p>
+            )}
+            {provider.id === "local" && (
+              <p className="text-xs text-muted-foreground">
+                Uses your browser's built-in voices, no API key needed. You'll be asked to share this tab with audio so the speech can be recorded.
+              </p>
+            )}
           </div>
-        </div>
 
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <label htmlFor="pitch-range" className="text-sm font-medium">
-              Pitch
-            </label>
-            <span className="text-xs text-muted-foreground">
-              {settings.pitch > 0 ? `+${settings.pitch}` : settings.pitch}%
-            </span>
+          {provider.requiresApiKey && (
+            <ApiKeyVault provider={provider} apiKey={apiKey} onApiKeyChange={onApiKeyChange} />
+          )}
+
+          {keyStatus && (
+            <p className={`text-xs ${keyStatus.valid ? "text-muted-foreground" : "text-destructive"}`}>
+              {formatKeyStatus(keyStatus)}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Voice</div>
+            <VoicePicker
+              voices={voices}
+              selectedVoiceId={settings.voiceId}
+              onSelect={(voiceId) => updateSettings({ voiceId })}
+              isLoading={voicesLoading}
+              error={voicesError}
+              emptyMessage={provider.requiresApiKey && !apiKey
+                ? `Enter your ${provider.name} API key to load its voices`
+                : "No voices available for this provider"}
+            />
+            {provider.addVoice && (
+              <VoiceCloneForm provider={provider} apiKey={apiKey} onVoiceAdded={handleVoiceAdded} />
+            )}
           </div>
-          <input
-            id="pitch-range"
-            type="range"
-            min="-20"
-            max="20"
-            step="1"
-            value={settings.pitch}
-            onChange={handlePitchChange}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-muted-foreground">
-            <span>Lower (-20%)</span>
-            <span>Higher (+20%)</span>
+
+          {/* Dialogue scripts: a voice per speaker label */}
+          {speakers.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Speakers</div>
+              {speakers.map((speaker) => {
+                const voice = settings.speakers?.[speaker];
+                return (
+                  <div key={speaker} className="grid grid-cols-[4rem_1fr_4.5rem_4.5rem] items-center gap-2">
+                    <span className="truncate text-sm font-medium" title={speaker}>{speaker}:</span>
+                    <select
+                      value={voice?.voiceId || ""}
+                      onChange={(e) => updateSpeakerVoice(speaker, { voiceId: e.target.value })}
+                      aria-label={`Voice for ${speaker}`}
+                      className="input-field"
+                    >
+                      <option value="">Main voice</option>
+                      {voices.map((option) => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0.8"
+                      max="1.5"
+                      step="0.1"
+                      value={voice?.speed ?? settings.speed}
+                      onChange={(e) => updateSpeakerVoice(speaker, { speed: parseFloat(e.target.value) || settings.speed })}
+                      disabled={!voice}
+                      aria-label={`Speed for ${speaker}`}
+                      title="Speed"
+                      className="input-field disabled:opacity-50"
+                    />
+                    <input
+                      type="number"
+                      min="-20"
+                      max="20"
+                      step="1"
+                      value={voice?.pitch ?? settings.pitch}
+                      onChange={(e) => updateSpeakerVoice(speaker, { pitch: parseFloat(e.target.value) || 0 })}
+                      disabled={!voice}
+                      aria-label={`Pitch for ${speaker}`}
+                      title="Pitch (%)"
+                      className="input-field disabled:opacity-50"
+                    />
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">
+                Speakers without a voice of their own use the main voice, speed and pitch
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <label htmlFor="speed-range" className="text-sm font-medium">
+                  Speed
+                </label>
+                <span className="text-xs text-muted-foreground">{settings.speed.toFixed(1)}x</span>
+              </div>
+              <input
+                id="speed-range"
+                type="range"
+                min="0.8"
+                max="1.5"
+                step="0.1"
+                value={settings.speed}
+                onChange={handleSpeedChange}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Slower (0.8x)</span>
+                <span>Faster (1.5x)</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <label htmlFor="pitch-range" className="text-sm font-medium">
+                  Pitch
+                </label>
+                <span className="text-xs text-muted-foreground">
+                  {settings.pitch > 0 ? `+${settings.pitch}` : settings.pitch}%
+                </span>
+              </div>
+              <input
+                id="pitch-range"
+                type="range"
+                min="-20"
+                max="20"
+                step="1"
+                value={settings.pitch}
+                onChange={handlePitchChange}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Lower (-20%)</span>
+                <span>Higher (+20%)</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <label htmlFor="sentence-gap-range" className="text-sm font-medium">
+                    Sentence pause
+                  </label>
+                  <span className="text-xs text-muted-foreground">{settings.sentenceGap.toFixed(1)}s</span>
+                </div>
+                <input
+                  id="sentence-gap-range"
+                  type="range"
+                  min="0"
+                  max="1.5"
+                  step="0.1"
+                  value={settings.sentenceGap}
+                  onChange={(e) => updateSettings({ sentenceGap: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <label htmlFor="paragraph-gap-range" className="text-sm font-medium">
+                    Paragraph pause
+                  </label>
+                  <span className="text-xs text-muted-foreground">{settings.paragraphGap.toFixed(1)}s</span>
+                </div>
+                <input
+                  id="paragraph-gap-range"
+                  type="range"
+                  min="0"
+                  max="3"
+                  step="0.1"
+                  value={settings.paragraphGap}
+                  onChange={(e) => updateSettings({ paragraphGap: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
 
       {/* Add audio player UI when audio is available */}
       {audioUrl && (
@@ -531,87 +980,128 @@ const VoiceControls: React.FC<VoiceControlsProps> = ({
         </div>
       )}
 
-      <div className="pt-2">
-        <button
-          type="button"
-          onClick={playPreview}
-          disabled={isLoading || !apiKey}
-          className={`btn-primary w-full flex items-center justify-center ${
-            isLoading ? "opacity-80" : ""
-          }`}
-        >
-          {isLoading ? (
-            <svg
-              className="animate-spin -ml-1 mr-2 h-4 w-4 text-primary-foreground"
-              xmlns="http://www.w3.org/2000/svg"
-              fill="none"
-              viewBox="0 0 24 24"
+      {mode === "tts" && (
+        <>
+          {/* Per-sentence status, with regeneration of a single sentence */}
+          {chunks.length > 0 && (
+            <div className="pt-2 border-t border-border space-y-2">
+              <div className="text-sm font-medium">Sentences</div>
+              <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                {chunks.map((state, index) => (
+                  <div key={index} className="flex items-center gap-2 rounded-md border border-border p-2 text-sm">
+                    <span className="w-5 shrink-0 text-xs text-muted-foreground">{index + 1}</span>
+                    {state.chunk.speaker && (
+                      <span className="shrink-0 text-xs font-medium">{state.chunk.speaker}</span>
+                    )}
+                    <span className="flex-1 truncate" title={state.error || state.chunk.text}>{state.chunk.text}</span>
+                    <span className={`shrink-0 text-xs ${state.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                      {state.status === "generating"
+                        ? "Generating..."
+                        : state.status === "error"
+                          ? "Failed"
+                          : state.status === "pending"
+                            ? "Queued"
+                            : state.audio?.cached ? "Cached" : "New"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => regenerateChunk(index)}
+                      disabled={isLoading || state.status === "generating"}
+                      className="btn-secondary shrink-0 px-2 py-1 text-xs disabled:opacity-50"
+                    >
+                      {state.status === "error" ? "Retry" : state.status === "pending" ? "Generate" : "Regenerate"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <UsagePanel projectId={projectId} events={usageEvents} budget={budget} onBudgetChange={handleBudgetChange} />
+
+          <div className="pt-2">
+            <button
+              type="button"
+              onClick={() => playPreview()}
+              disabled={isLoading || (provider.requiresApiKey && !apiKey)}
+              className={`btn-primary w-full flex items-center justify-center ${
+                isLoading ? "opacity-80" : ""
+              }`}
             >
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
-              ></circle>
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-              ></path>
-            </svg>
-          ) : audioUrl ? (
-            <>
-              {isPlaying ? (
+              {isLoading ? (
                 <svg
+                  className="animate-spin -ml-1 mr-2 h-4 w-4 text-primary-foreground"
                   xmlns="http://www.w3.org/2000/svg"
-                  viewBox="0 0 24 24"
                   fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  className="mr-2 h-4 w-4"
-                >
-                  <rect x="6" y="4" width="4" height="16" />
-                  <rect x="14" y="4" width="4" height="16" />
-                </svg>
-              ) : (
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
                   viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  className="mr-2 h-4 w-4"
                 >
-                  <polygon points="5 3 19 12 5 21 5 3" />
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  ></circle>
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  ></path>
                 </svg>
+              ) : audioUrl ? (
+                <>
+                  {isPlaying ? (
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-2 h-4 w-4"
+                    >
+                      <rect x="6" y="4" width="4" height="16" />
+                      <rect x="14" y="4" width="4" height="16" />
+                    </svg>
+                  ) : (
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-2 h-4 w-4"
+                    >
+                      <polygon points="5 3 19 12 5 21 5 3" />
+                    </svg>
+                  )}
+                  {isPlaying ? "Pause Preview" : "Play Preview"}
+                </>
+              ) : (
+                <>
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="mr-2 h-4 w-4"
+                  >
+                    <polygon points="5 3 19 12 5 21 5 3" />
+                  </svg>
+                  Generate Voice Preview
+                </>
               )}
-              {isPlaying ? "Pause Preview" : "Play Preview"}
-            </>
-          ) : (
-            <>
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2 h-4 w-4"
-              >
-                <polygon points="5 3 19 12 5 21 5 3" />
-              </svg>
-              Generate Voice Preview
-            </>
-          )}
-        </button>
-      </div>
+            </button>
+          </div>
+        </>
+      )}
     </div>
   );
 };
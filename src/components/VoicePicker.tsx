@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from "react";
+import { VoiceOption } from "@/lib/types";
+import { filterVoices, getVoiceLanguages, VoiceFilter } from "@/lib/tts/voices";
+import { toast } from "sonner";
+
+interface VoicePickerProps {
+  voices: VoiceOption[];
+  selectedVoiceId: string;
+  onSelect: (voiceId: string) => void;
+  isLoading?: boolean;
+  error?: string | null;
+  emptyMessage?: string;
+}
+
+const VoicePicker: React.FC<VoicePickerProps> = ({
+  voices,
+  selectedVoiceId,
+  onSelect,
+  isLoading = false,
+  error,
+  emptyMessage = "No voices available for this provider"
+}) => {
+  const [filter, setFilter] = useState<VoiceFilter>({ query: "", gender: "", language: "" });
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Stop any sample that is still playing when the picker goes away
+  useEffect(() => {
+    return () => {
+      previewAudioRef.current?.pause();
+    };
+  }, []);
+
+  const updateFilter = (newFilter: Partial<VoiceFilter>) => {
+    setFilter({ ...filter, ...newFilter });
+  };
+
+  const togglePreview = (voice: VoiceOption) => {
+    if (!voice.preview) return;
+
+    if (!previewAudioRef.current) {
+      previewAudioRef.current = new Audio();
+      previewAudioRef.current.addEventListener("ended", () => setPreviewingId(null));
+    }
+    const audio = previewAudioRef.current;
+
+    if (previewingId === voice.id) {
+      audio.pause();
+      setPreviewingId(null);
+      return;
+    }
+
+    audio.src = voice.preview;
+    setPreviewingId(voice.id);
+    audio.play().catch(error => {
+      console.error("Error playing voice sample:", error);
+      toast.error("Failed to play voice sample");
+      setPreviewingId(null);
+    });
+  };
+
+  const languages = getVoiceLanguages(voices);
+  const visibleVoices = filterVoices(voices, filter);
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading voices...</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-destructive">{error}</p>;
+  }
+
+  if (voices.length === 0) {
+    return <p className="text-xs text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => updateFilter({ query: e.target.value })}
+          placeholder="Search voices"
+          aria-label="Search voices"
+          className="input-field"
+        />
+        <select
+          value={filter.gender}
+          onChange={(e) => updateFilter({ gender: e.target.value as VoiceFilter["gender"] })}
+          aria-label="Filter by gender"
+          className="input-field"
+        >
+          <option value="">Any gender</option>
+          <option value="female">Female</option>
+          <option value="male">Male</option>
+        </select>
+        <select
+          value={filter.language}
+          onChange={(e) => updateFilter({ language: e.target.value })}
+          aria-label="Filter by language"
+          className="input-field"
+          disabled={languages.length === 0}
+        >
+          <option value="">Any language</option>
+          {languages.map((language) => (
+            <option key={language} value={language}>{language}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+        {visibleVoices.map((voice) => {
+          const details = [voice.gender, voice.accent, voice.age, voice.language].filter(Boolean).join(" · ");
+          return (
+            <div
+              key={voice.id}
+              className={`flex items-center justify-between rounded-md border p-2 text-sm transition-all
+                ${selectedVoiceId === voice.id
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:border-input"}`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(voice.id)}
+                className="flex-1 text-left min-w-0"
+              >
+                <div className="flex items-center">
+                  <span className="mr-2 h-2 w-2 shrink-0 rounded-full bg-primary/60"></span>
+                  <span className="truncate">{voice.name}</span>
+                  {voice.custom && (
+                    <span className="ml-2 shrink-0 rounded bg-primary/10 px-1.5 text-[10px] font-medium text-primary">Custom</span>
+                  )}
+                </div>
+                {details && (
+                  <div className="ml-4 text-xs text-muted-foreground capitalize truncate">{details}</div>
+                )}
+              </button>
+              {voice.preview && (
+                <button
+                  type="button"
+                  onClick={() => togglePreview(voice)}
+                  className="ml-2 rounded-full p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted"
+                  aria-label={previewingId === voice.id ? `Stop ${voice.name} sample` : `Play ${voice.name} sample`}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="h-4 w-4"
+                  >
+                    {previewingId === voice.id ? (
+                      <rect x="6" y="6" width="12" height="12" />
+                    ) : (
+                      <polygon points="5 3 19 12 5 21 5 3" />
+                    )}
+                  </svg>
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {visibleVoices.length === 0 && (
+          <p className="text-xs text-muted-foreground p-2">No voices match your search</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VoicePicker;
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { AudioSettings, CaptionSegment, MediaItem } from "@/lib/types";
+import { getMusicRange } from "@/lib/music";
+import { buildClips } from "@/lib/render/composition";
+import { loadClipAudio } from "@/lib/render/mixdown";
+import { getPeakBetween, getWaveform, Waveform } from "@/lib/render/waveform";
+import { SoundEffectTrack } from "@/lib/sfx";
+
+interface WaveformLanesProps {
+  duration: number; // seconds the lanes span
+  media: MediaItem[];
+  voiceover: AudioBuffer | null;
+  music: AudioBuffer | null;
+  audioSettings: AudioSettings;
+  soundEffects: SoundEffectTrack[];
+  captionSegments: CaptionSegment[];
+}
+
+// A stretch of audio placed on the timeline
+interface LanePart {
+  waveform: Waveform;
+  start: number; // in seconds
+  duration: number; // in seconds
+  from?: number; // seconds into the audio it starts at
+  loopLength?: number; // seconds of audio repeated to fill the duration, when it loops
+}
+
+const LANE_HEIGHT = 32;
+
+const WaveformLane: React.FC<{ label: string; parts: LanePart[]; duration: number; className: string }> = ({
+  label,
+  parts,
+  duration,
+  className,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // Keep the canvas as many pixels wide as it is shown
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || width === 0 || duration <= 0) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(LANE_HEIGHT * scale);
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    context.clearRect(0, 0, width, LANE_HEIGHT);
+    context.fillStyle = getComputedStyle(canvas).color;
+
+    const secondsPerPixel = duration / width;
+    for (let x = 0; x < width; x++) {
+      const time = x * secondsPerPixel;
+      let peak = 0;
+      parts.forEach(part => {
+        if (time < part.start || time >= part.start + part.duration) return;
+        let from = time - part.start;
+        if (part.loopLength) from %= part.loopLength;
+        from += part.from || 0;
+        peak = Math.max(peak, getPeakBetween(part.waveform, from, from + secondsPerPixel));
+      });
+      const height = Math.max(1, peak * LANE_HEIGHT);
+      context.fillRect(x, (LANE_HEIGHT - height) / 2, 1, height);
+    }
+  }, [parts, duration, width]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 flex-shrink-0 text-xs text-muted-foreground">{label}</span>
+      <canvas
+        ref={canvasRef}
+        style={{ height: LANE_HEIGHT }}
+        className={`w-full rounded bg-muted/40 ${className}`}
+        aria-label={`${label} waveform`}
+      />
+    </div>
+  );
+};
+
+// Waveforms of everything that sounds in the video on one time axis, with the caption boundaries drawn over them,
+// so cuts can be lined up with the narration
+const WaveformLanes: React.FC<WaveformLanesProps> = ({
+  duration,
+  media,
+  voiceover,
+  music,
+  audioSettings,
+  soundEffects,
+  captionSegments,
+}) => {
+  const [clipAudio, setClipAudio] = useState<Map<string, AudioBuffer | null>>(new Map());
+
+  // Decode the sound of each video clip; already decoded clips come straight from the mixdown cache
+  useEffect(() => {
+    let cancelled = false;
+    const videos = media.filter(item => item.type === "video");
+    Promise.all(videos.map(item => loadClipAudio(item).then(audio => [item.id, audio] as const))).then(entries => {
+      if (!cancelled) setClipAudio(new Map(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [media]);
+
+  const voiceoverParts = useMemo<LanePart[]>(
+    () => (voiceover ? [{ waveform: getWaveform(voiceover), start: 0, duration: voiceover.duration }] : []),
+    [voiceover]
+  );
+
+  const { loopMusic, musicTrimStart, musicTrimEnd } = audioSettings;
+  const musicParts = useMemo<LanePart[]>(() => {
+    if (!music) return [];
+    const range = getMusicRange({ musicTrimStart, musicTrimEnd }, music);
+    const length = range.end - range.start;
+    return [{
+      waveform: getWaveform(music),
+      start: 0,
+      duration: loopMusic ? duration : length,
+      from: range.start,
+      loopLength: loopMusic ? length : undefined,
+    }];
+  }, [music, loopMusic, musicTrimStart, musicTrimEnd, duration]);
+
+  const clipParts = useMemo<LanePart[]>(
+    () =>
+      buildClips(media).flatMap(clip => {
+        const audio = clipAudio.get(clip.media.id);
+        return audio ? [{ waveform: getWaveform(audio), start: clip.start, duration: clip.duration }] : [];
+      }),
+    [media, clipAudio]
+  );
+
+  const effectParts = useMemo<LanePart[]>(
+    () =>
+      soundEffects.map(({ source, offset = 0 }) => ({
+        waveform: getWaveform(source),
+        start: offset,
+        duration: source.duration,
+      })),
+    [soundEffects]
+  );
+
+  const lanes = [
+    { label: "Voiceover", parts: voiceoverParts, className: "text-primary" },
+    { label: "Music", parts: musicParts, className: "text-emerald-500" },
+    { label: "Video sound", parts: clipParts, className: "text-sky-500" },
+    { label: "Effects", parts: effectParts, className: "text-amber-500" },
+  ].filter(lane => lane.parts.length > 0);
+
+  if (lanes.length === 0 || duration <= 0) return null;
+
+  const boundaries = Array.from(new Set(captionSegments.flatMap(segment => [segment.start, segment.end])))
+    .filter(time => time > 0 && time < duration);
+
+  return (
+    <div className="relative space-y-1">
+      {lanes.map(lane => (
+        <WaveformLane key={lane.label} duration={duration} {...lane} />
+      ))}
+
+      {/* Caption boundaries, across all lanes */}
+      <div className="pointer-events-none absolute inset-y-0 right-0 left-[5.5rem]">
+        {boundaries.map(time => (
+          <div
+            key={time}
+            className="absolute inset-y-0 w-px bg-foreground/30"
+            style={{ left: `${(time / duration) * 100}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformLanes;
@@ -9,13 +9,141 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      pronunciation_entries: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          pronunciation: string
+          term: string
+          term_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind?: string
+          pronunciation: string
+          term: string
+          term_key?: never
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          pronunciation?: string
+          term?: string
+          term_key?: never
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      provider_keys: {
+        Row: {
+          ciphertext: string
+          created_at: string
+          id: string
+          iv: string
+          provider: string
+          salt: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ciphertext: string
+          created_at?: string
+          id?: string
+          iv: string
+          provider: string
+          salt: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          ciphertext?: string
+          created_at?: string
+          id?: string
+          iv?: string
+          provider?: string
+          salt?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tts_proxy_requests: {
+        Row: {
+          characters: number
+          created_at: string
+          id: string
+          path: string
+          user_id: string
+        }
+        Insert: {
+          characters?: number
+          created_at?: string
+          id?: string
+          path: string
+          user_id: string
+        }
+        Update: {
+          characters?: number
+          created_at?: string
+          id?: string
+          path?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tts_usage_events: {
+        Row: {
+          cached: boolean
+          characters: number
+          created_at: string
+          id: string
+          project_id: string
+          provider: string
+          user_id: string
+          voice_id: string
+        }
+        Insert: {
+          cached?: boolean
+          characters: number
+          created_at?: string
+          id?: string
+          project_id: string
+          provider: string
+          user_id?: string
+          voice_id: string
+        }
+        Update: {
+          cached?: boolean
+          characters?: number
+          created_at?: string
+          id?: string
+          project_id?: string
+          provider?: string
+          user_id?: string
+          voice_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_tts_proxy_usage: {
+        Args: { target_user_id: string }
+        Returns: {
+          characters_this_month: number
+          requests_last_minute: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
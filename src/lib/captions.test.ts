@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { generateAlignedSubtitleTimings, getWordTimings } from "@/lib/captions";
+import { renderScript, stripMarkup } from "@/lib/markup";
+import { elevenLabsProvider, parseAlignment } from "@/lib/tts/elevenlabs";
+import punctuationResponse from "@/lib/__fixtures__/with-timestamps-punctuation.json";
+import markupResponse from "@/lib/__fixtures__/with-timestamps-markup.json";
+
+// Responses of the text-to-speech/with-timestamps endpoint, in the API's own shape
+const punctuation = parseAlignment(punctuationResponse.alignment);
+const markup = parseAlignment(markupResponse.alignment);
+
+const MARKUP_SCRIPT = "Welcome to *Lumen* [pause 500ms] {GIF|jif} files load fast.";
+
+describe("getWordTimings", () => {
+  it("keeps punctuation on the word it follows", () => {
+    expect(getWordTimings(punctuation)).toEqual([
+      { word: "Hello,", start: 0, end: 0.475 },
+      { word: "world!", start: 0.51, end: 0.985 },
+      { word: "Captions", start: 1.02, end: 1.58 },
+      { word: "follow", start: 1.615, end: 2.033 },
+      { word: "the", start: 2.068, end: 2.281 },
+      { word: "voice,", start: 2.316, end: 2.791 },
+      { word: "word", start: 2.826, end: 3.126 },
+      { word: "by", start: 3.161, end: 3.319 },
+      { word: "word.", start: 3.354, end: 3.766 },
+      { word: "Done?", start: 3.801, end: 4.197 },
+    ]);
+  });
+
+  it("skips break tags, leaving the pause between the words around them", () => {
+    const words = getWordTimings(markup);
+    expect(words.map(word => word.word)).toEqual(["Welcome", "to", "Lumen", "jif", "files", "load", "fast."]);
+    expect(words[2]).toEqual({ word: "Lumen", start: 0.717, end: 1.072 });
+    expect(words[3]).toEqual({ word: "jif", start: 1.646, end: 1.859 });
+  });
+
+  it("keeps a literal < that is not a tag", () => {
+    const characters = [..."if a < b then"];
+    const words = getWordTimings({
+      characters,
+      characterStartTimes: characters.map((_, index) => index / 10),
+      characterEndTimes: characters.map((_, index) => (index + 1) / 10),
+    });
+    expect(words.map(word => word.word)).toEqual(["if", "a", "<", "b", "then"]);
+  });
+});
+
+describe("generateAlignedSubtitleTimings", () => {
+  it("groups up to three words and ends a caption at each sentence", () => {
+    expect(generateAlignedSubtitleTimings(punctuation)).toEqual([
+      { start: 0, end: 0.985, text: "Hello, world!" },
+      { start: 1.02, end: 2.281, text: "Captions follow the" },
+      { start: 2.316, end: 3.319, text: "voice, word by" },
+      { start: 3.354, end: 3.766, text: "word." },
+      { start: 3.801, end: 4.197, text: "Done?" },
+    ]);
+  });
+
+  it("shows the script without markup, timed by the words that were spoken", () => {
+    // The fixture is the alignment of exactly what was sent for the script
+    expect(markupResponse.alignment.characters.join("")).toBe(
+      renderScript(MARKUP_SCRIPT, elevenLabsProvider.scriptCapabilities)
+    );
+
+    expect(generateAlignedSubtitleTimings(markup, stripMarkup(MARKUP_SCRIPT))).toEqual([
+      { start: 0, end: 1.072, text: "Welcome to Lumen" },
+      { start: 1.646, end: 2.56, text: "GIF files load" },
+      { start: 2.595, end: 2.991, text: "fast." },
+    ]);
+  });
+
+  it("spreads display words over the spoken ones when the counts differ", () => {
+    const segments = generateAlignedSubtitleTimings(markup, "Welcome to Lumen, where GIF files load fast.");
+    expect(segments.map(segment => segment.text)).toEqual(["Welcome to Lumen,", "where GIF files", "load fast."]);
+    expect(segments[0].start).toBe(0);
+    expect(segments[segments.length - 1].end).toBe(2.991);
+  });
+});
+
+describe("parseAlignment", () => {
+  it("renames the API fields", () => {
+    expect(punctuation.characters).toHaveLength(punctuationResponse.alignment.characters.length);
+    expect(punctuation.characterStartTimes).toBe(punctuationResponse.alignment.character_start_times_seconds);
+    expect(punctuation.characterEndTimes).toBe(punctuationResponse.alignment.character_end_times_seconds);
+  });
+
+  it("drops missing or misaligned timings", () => {
+    expect(parseAlignment(null)).toBeNull();
+    expect(parseAlignment({ characters: [], character_start_times_seconds: [], character_end_times_seconds: [] })).toBeNull();
+    expect(
+      parseAlignment({ ...punctuationResponse.alignment, character_end_times_seconds: [0.1] })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { CaptionSegment, CharacterAlignment } from "@/lib/types";
+import { RENDERED_TAG_PATTERN } from "@/lib/markup";
+
+const WORDS_PER_SEGMENT = 3;
+
+// Gap left between consecutive segments so captions don't visually merge
+const SEGMENT_GAP = 0.05;
+
+// Split text into short subtitle segments of up to 3 words, never crossing a sentence boundary
+export const splitTextIntoSegments = (text: string): string[] => {
+  if (!text) return [];
+
+  // Split text into sentences
+  const sentences = text.replace(/([.!?])\s+/g, "$1|").split("|");
+
+  const segments: string[] = [];
+
+  sentences.forEach(sentence => {
+    if (!sentence.trim()) return;
+
+    // Split sentence into words
+    const words = sentence.trim().split(/\s+/);
+
+    // Group words into segments of 2-3 words each
+    for (let i = 0; i < words.length; i += WORDS_PER_SEGMENT) {
+      const segmentWords = words.slice(i, Math.min(i + WORDS_PER_SEGMENT, words.length));
+      if (segmentWords.length > 0) {
+        segments.push(segmentWords.join(" "));
+      }
+    }
+  });
+
+  return segments;
+};
+
+// Spread the segments evenly over the given duration
+export const generateSubtitleTimings = (text: string, duration: number): CaptionSegment[] => {
+  if (!text) return [];
+
+  const segments = splitTextIntoSegments(text);
+  if (segments.length === 0) return [];
+
+  const timePerSegment = duration / segments.length;
+
+  return segments.map((segment, index) => ({
+    start: index * timePerSegment,
+    end: (index + 1) * timePerSegment - SEGMENT_GAP,
+    text: segment,
+  }));
+};
+
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Indexes of the characters that belong to tags the script was rendered with, which are not spoken
+const getTagCharacters = (characters: string[]): Set<number> => {
+  const tagged = new Set<number>();
+  const text = characters.join("");
+  let offset = 0;
+  const offsets = characters.map(char => (offset += char.length) - char.length);
+
+  for (const match of text.matchAll(RENDERED_TAG_PATTERN)) {
+    const end = match.index + match[0].length;
+    offsets.forEach((start, index) => {
+      if (start >= match.index && start < end) tagged.add(index);
+    });
+  }
+  return tagged;
+};
+
+// Collapse character timings into words, splitting on whitespace. Inline tags such as <break /> are not words
+export const getWordTimings = (alignment: CharacterAlignment): WordTiming[] => {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+  const tagged = getTagCharacters(alignment.characters);
+
+  alignment.characters.forEach((char, index) => {
+    if (tagged.has(index)) return;
+    if (/\s/.test(char)) {
+      if (current) words.push(current);
+      current = null;
+      return;
+    }
+
+    const start = alignment.characterStartTimes[index];
+    const end = alignment.characterEndTimes[index];
+    if (current) {
+      current.word += char;
+      current.end = end;
+    } else {
+      current = { word: char, start, end };
+    }
+  });
+  if (current) words.push(current);
+
+  return words;
+};
+
+// Time the words shown on screen by the spoken ones. They differ when pronunciations are substituted, in which
+// case each display word takes the proportional share of spoken words
+const mapDisplayWords = (spoken: WordTiming[], displayText: string): WordTiming[] => {
+  const display = displayText.trim().split(/\s+/).filter(Boolean);
+  if (spoken.length === 0) return [];
+  if (display.length === spoken.length) {
+    return spoken.map((timing, index) => ({ ...timing, word: display[index] }));
+  }
+
+  return display.map((word, index) => {
+    const first = Math.floor((index * spoken.length) / display.length);
+    const last = Math.max(first, Math.floor(((index + 1) * spoken.length) / display.length) - 1);
+    return { word, start: spoken[first].start, end: spoken[Math.min(last, spoken.length - 1)].end };
+  });
+};
+
+// Group aligned words into the same 3-word, sentence-bounded segments as the even split, timed by real word
+// boundaries. Pass the display text when the spoken text differs from what should appear on screen
+export const generateAlignedSubtitleTimings = (
+  alignment: CharacterAlignment,
+  displayText?: string
+): CaptionSegment[] => {
+  const segments: CaptionSegment[] = [];
+  let group: WordTiming[] = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    segments.push({
+      start: group[0].start,
+      end: group[group.length - 1].end,
+      text: group.map(word => word.word).join(" "),
+    });
+    group = [];
+  };
+
+  const spoken = getWordTimings(alignment);
+  const words = displayText === undefined ? spoken : mapDisplayWords(spoken, displayText);
+
+  words.forEach(word => {
+    group.push(word);
+    if (group.length === WORDS_PER_SEGMENT || /[.!?]$/.test(word.word)) {
+      flush();
+    }
+  });
+  flush();
+
+  return segments;
+};
+
+// Find the caption that should be visible at the given time
+export const findCaptionAt = (segments: CaptionSegment[], time: number): CaptionSegment | null => {
+  for (const segment of segments) {
+    if (time >= segment.start && time <= segment.end) {
+      return segment;
+    }
+  }
+  return null;
+};
+
+// Wrap caption text into at most 2 lines for optimal readability
+export const formatCaptionLines = (text: string | undefined, maxCharsPerLine = 42): string[] => {
+  if (!text || text.trim() === "") return [];
+
+  const lines: string[] = [];
+  let currentLine = "";
+
+  text.split(" ").forEach(word => {
+    // Check if adding this word would exceed the max line length
+    if ((currentLine + " " + word).length <= maxCharsPerLine) {
+      currentLine = currentLine ? currentLine + " " + word : word;
+    } else {
+      // If the line would be too long, push the current line and start a new one
+      if (currentLine) lines.push(currentLine);
+      currentLine = word;
+    }
+  });
+
+  // Add the last line if it exists
+  if (currentLine) lines.push(currentLine);
+
+  return lines.slice(0, 2);
+};
@@ -0,0 +1,72 @@
+// Provider API keys are encrypted in the browser with a passphrase before they are stored anywhere, using
+// AES-GCM with a key derived by PBKDF2. Neither Supabase nor local storage ever sees the plain key
+
+export interface EncryptedSecret {
+  ciphertext: string; // base64
+  iv: string; // base64, 12 bytes
+  salt: string; // base64, 16 bytes
+}
+
+const PBKDF2_ITERATIONS = 310_000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const encryptSecret = async (secret: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(secret));
+
+  return {
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    iv: toBase64(iv),
+    salt: toBase64(salt),
+  };
+};
+
+// AES-GCM authenticates the ciphertext, so a wrong passphrase fails to decrypt rather than returning garbage
+export const decryptSecret = async (secret: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt));
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(secret.iv) },
+      key,
+      fromBase64(secret.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+};
@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TtsProviderId } from "@/lib/types";
+import { EncryptedSecret } from "@/lib/keyVault";
+
+// Encrypted keys live in the signed-in user's Supabase record, or in this browser for signed-out use
+
+const LOCAL_STORAGE_PREFIX = "tts-key-vault:";
+
+const getUserId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id || null;
+};
+
+export const fetchStoredKey = async (provider: TtsProviderId): Promise<EncryptedSecret | null> => {
+  const userId = await getUserId();
+  if (!userId) {
+    const stored = localStorage.getItem(LOCAL_STORAGE_PREFIX + provider);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  const { data, error } = await supabase
+    .from("provider_keys")
+    .select("ciphertext, iv, salt")
+    .eq("provider", provider)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load the saved API key: ${error.message}`);
+  return data;
+};
+
+export const saveStoredKey = async (provider: TtsProviderId, secret: EncryptedSecret) => {
+  const userId = await getUserId();
+  if (!userId) {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + provider, JSON.stringify(secret));
+    return;
+  }
+
+  const { error } = await supabase
+    .from("provider_keys")
+    .upsert(
+      { user_id: userId, provider, ...secret, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,provider" }
+    );
+  if (error) throw new Error(`Failed to save the API key: ${error.message}`);
+};
+
+export const deleteStoredKey = async (provider: TtsProviderId) => {
+  const userId = await getUserId();
+  if (!userId) {
+    localStorage.removeItem(LOCAL_STORAGE_PREFIX + provider);
+    return;
+  }
+
+  const { error } = await supabase.from("provider_keys").delete().eq("provider", provider);
+  if (error) throw new Error(`Failed to remove the saved API key: ${error.message}`);
+};
@@ -0,0 +1,132 @@
+import { PronunciationEntry } from "@/lib/types";
+import { ScriptToken } from "@/lib/markup";
+
+export interface LexiconCsvError {
+  line: number;
+  message: string;
+}
+
+const CSV_HEADER = ["term", "pronunciation", "type"];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Replace lexicon terms in the plain text of a script with pronunciations. Matching ignores case and only
+// hits whole words; longer terms win over shorter ones they contain, and explicit {word|...} markup is untouched
+export const applyLexicon = (tokens: ScriptToken[], lexicon: PronunciationEntry[]): ScriptToken[] => {
+  const entries = lexicon.filter(entry => entry.term.trim() && entry.pronunciation.trim());
+  if (entries.length === 0) return tokens;
+
+  const byTerm = new Map(entries.map(entry => [entry.term.trim().toLowerCase(), entry]));
+  const alternatives = [...byTerm.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+
+  return tokens.flatMap((token): ScriptToken[] => {
+    if (token.type !== "text") return [token];
+
+    const result: ScriptToken[] = [];
+    let position = 0;
+    for (const match of token.text.matchAll(pattern)) {
+      const entry = byTerm.get(match[0].toLowerCase());
+      if (!entry || match.index === undefined) continue;
+
+      if (match.index > position) {
+        result.push({ type: "text", text: token.text.slice(position, match.index) });
+      }
+      result.push({
+        type: "pronounce",
+        text: match[0],
+        pronunciation: entry.pronunciation.trim(),
+        ipa: entry.kind === "ipa",
+      });
+      position = match.index + match[0].length;
+    }
+    if (position < token.text.length) {
+      result.push({ type: "text", text: token.text.slice(position) });
+    }
+    return result;
+  });
+};
+
+const escapeCsvField = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const lexiconToCsv = (entries: PronunciationEntry[]): string => {
+  const rows = entries.map(entry => [entry.term, entry.pronunciation, entry.kind].map(escapeCsvField).join(","));
+  return [CSV_HEADER.join(","), ...rows].join("\n") + "\n";
+};
+
+// Split CSV into rows of fields, honouring quoted fields with embedded commas, quotes and newlines
+const parseCsvRows = (content: string): { fields: string[]; line: number }[] => {
+  const rows: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ fields, line: rowLine });
+      fields = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || fields.length > 0) {
+    fields.push(field);
+    rows.push({ fields, line: rowLine });
+  }
+  return rows;
+};
+
+// Read a lexicon CSV with term, pronunciation and an optional type column (respelling or ipa)
+export const parseLexiconCsv = (content: string): { entries: PronunciationEntry[]; errors: LexiconCsvError[] } => {
+  const entries: PronunciationEntry[] = [];
+  const errors: LexiconCsvError[] = [];
+
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ""))
+    .filter(row => row.fields.some(field => field.trim()));
+  const hasHeader = rows[0]?.fields[0]?.trim().toLowerCase() === CSV_HEADER[0];
+
+  rows.slice(hasHeader ? 1 : 0).forEach(({ fields, line }) => {
+    const [term = "", pronunciation = "", type = ""] = fields.map(field => field.trim());
+    const kind = type.toLowerCase() || "respelling";
+
+    if (!term || !pronunciation) {
+      errors.push({ line, message: "Each row needs a term and a pronunciation" });
+    } else if (kind !== "respelling" && kind !== "ipa") {
+      errors.push({ line, message: `Unknown type "${type}", expected respelling or ipa` });
+    } else {
+      entries.push({ term, pronunciation, kind });
+    }
+  });
+
+  return { entries, errors };
+};
@@ -0,0 +1,58 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PronunciationEntry } from "@/lib/types";
+
+type PronunciationRow = {
+  id: string;
+  term: string;
+  pronunciation: string;
+  kind: string;
+};
+
+const toEntry = (row: PronunciationRow): PronunciationEntry => ({
+  id: row.id,
+  term: row.term,
+  pronunciation: row.pronunciation,
+  kind: row.kind === "ipa" ? "ipa" : "respelling",
+});
+
+// The signed-in user's lexicon; row level security limits the table to their own entries
+export const fetchLexicon = async (): Promise<PronunciationEntry[]> => {
+  const { data, error } = await supabase
+    .from("pronunciation_entries")
+    .select("id, term, pronunciation, kind")
+    .order("term");
+  if (error) throw new Error(`Failed to load pronunciations: ${error.message}`);
+  return (data || []).map(toEntry);
+};
+
+// Insert or update entries by term, so importing a CSV twice doesn't create duplicates. Terms are compared
+// ignoring case, as the lexicon matches them; when one save repeats a term the last entry wins, since a single
+// upsert can't touch the same row twice
+export const saveLexiconEntries = async (entries: PronunciationEntry[]): Promise<PronunciationEntry[]> => {
+  const unique = new Map<string, PronunciationEntry>();
+  entries.forEach(entry => unique.set(entry.term.trim().toLowerCase(), entry));
+  if (unique.size === 0) return [];
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to save pronunciations");
+
+  const { data, error } = await supabase
+    .from("pronunciation_entries")
+    .upsert(
+      Array.from(unique.values(), entry => ({
+        user_id: user.id,
+        term: entry.term.trim(),
+        pronunciation: entry.pronunciation.trim(),
+        kind: entry.kind,
+      })),
+      { onConflict: "user_id,term_key" }
+    )
+    .select("id, term, pronunciation, kind");
+  if (error) throw new Error(`Failed to save pronunciations: ${error.message}`);
+  return (data || []).map(toEntry);
+};
+
+export const deleteLexiconEntry = async (id: string) => {
+  const { error } = await supabase.from("pronunciation_entries").delete().eq("id", id);
+  if (error) throw new Error(`Failed to delete pronunciation: ${error.message}`);
+};
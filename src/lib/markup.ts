@@ -0,0 +1,182 @@
+import { PronunciationEntry } from "@/lib/types";
+import { applyLexicon } from "@/lib/lexicon";
+
+// Inline delivery markup for scripts: [pause 500ms], *emphasis* and {word|pronunciation}
+
+export type ScriptToken =
+  | { type: "text"; text: string }
+  | { type: "pause"; ms: number }
+  | { type: "emphasis"; text: string }
+  | { type: "pronounce"; text: string; pronunciation: string; ipa?: boolean };
+
+export interface MarkupError {
+  start: number; // offset of the offending markup in the script
+  end: number;
+  message: string;
+}
+
+// What a TTS provider can express natively; anything else is approximated in plain text
+export interface ScriptCapabilities {
+  breakTags: boolean; // inline <break time="1.5s" /> tags
+  maxBreakMs: number;
+  emphasisTags: boolean; // SSML <emphasis> tags
+  phonemeTags: boolean; // SSML <phoneme alphabet="ipa"> tags
+}
+
+export const MAX_PAUSE_MS = 5000;
+
+const PAUSE_PATTERN = /^\[pause\s+(\d+(?:\.\d+)?)\s*(ms|s)\]$/i;
+
+// Split a script into tokens, collecting an error for each piece of malformed markup. Malformed markup is kept
+// as plain text so the rest of the script still parses
+export const parseScript = (text: string): { tokens: ScriptToken[]; errors: MarkupError[] } => {
+  const tokens: ScriptToken[] = [];
+  const errors: MarkupError[] = [];
+  let plain = "";
+
+  const pushPlain = () => {
+    if (plain) tokens.push({ type: "text", text: plain });
+    plain = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "[") {
+      const close = text.indexOf("]", i);
+      if (close === -1) {
+        errors.push({ start: i, end: text.length, message: "Unclosed [ — pauses are written [pause 500ms]" });
+        plain += char;
+        i++;
+        continue;
+      }
+
+      const tag = text.slice(i, close + 1);
+      const match = tag.match(PAUSE_PATTERN);
+      if (!match) {
+        errors.push({ start: i, end: close + 1, message: `Unknown tag ${tag} — pauses are written [pause 500ms]` });
+        plain += tag;
+      } else {
+        let ms = parseFloat(match[1]) * (match[2].toLowerCase() === "s" ? 1000 : 1);
+        if (ms > MAX_PAUSE_MS) {
+          errors.push({ start: i, end: close + 1, message: `Pauses can be at most ${MAX_PAUSE_MS / 1000}s` });
+          ms = MAX_PAUSE_MS;
+        }
+        pushPlain();
+        tokens.push({ type: "pause", ms });
+      }
+      i = close + 1;
+      continue;
+    }
+
+    if (char === "*") {
+      const close = text.indexOf("*", i + 1);
+      const content = close === -1 ? "" : text.slice(i + 1, close);
+      if (close === -1 || !content.trim() || /[[{]/.test(content)) {
+        errors.push({
+          start: i,
+          end: close === -1 ? i + 1 : close + 1,
+          message: close === -1
+            ? "Unclosed emphasis — add a closing *"
+            : "Emphasis must wrap plain words, like *this*",
+        });
+        plain += close === -1 ? char : text.slice(i, close + 1);
+        i = close === -1 ? i + 1 : close + 1;
+        continue;
+      }
+
+      pushPlain();
+      tokens.push({ type: "emphasis", text: content });
+      i = close + 1;
+      continue;
+    }
+
+    if (char === "{") {
+      const close = text.indexOf("}", i);
+      const parts = close === -1 ? [] : text.slice(i + 1, close).split("|");
+      if (close === -1 || parts.length !== 2 || !parts[0].trim() || !parts[1].trim()) {
+        errors.push({
+          start: i,
+          end: close === -1 ? i + 1 : close + 1,
+          message: close === -1
+            ? "Unclosed { — pronunciations are written {word|pronunciation}"
+            : "Pronunciations are written {word|pronunciation}",
+        });
+        plain += close === -1 ? char : text.slice(i, close + 1);
+        i = close === -1 ? i + 1 : close + 1;
+        continue;
+      }
+
+      pushPlain();
+      tokens.push({ type: "pronounce", text: parts[0].trim(), pronunciation: parts[1].trim() });
+      i = close + 1;
+      continue;
+    }
+
+    if (char === "]" || char === "}") {
+      errors.push({ start: i, end: i + 1, message: `Unmatched ${char}` });
+    }
+
+    plain += char;
+    i++;
+  }
+
+  pushPlain();
+  return { tokens, errors };
+};
+
+// Pauses leave a double space behind; keep line breaks, which mark paragraphs
+const collapseSpaces = (text: string): string => {
+  return text.replace(/[ \t]{2,}/g, " ").replace(/ +([.,!?;:])/g, "$1").trim();
+};
+
+// The words as they should appear on screen, with all markup removed
+export const stripMarkup = (text: string): string => {
+  const { tokens } = parseScript(text);
+  return collapseSpaces(
+    tokens
+      .map(token => (token.type === "pause" ? " " : token.text))
+      .join("")
+  );
+};
+
+// The tags renderScript can emit, to tell them apart from a literal "<" in the script
+export const RENDERED_TAG_PATTERN = /<\/?(?:break|emphasis|phoneme)\b[^<>]*>/g;
+
+// The text to send to a provider, with markup translated to what it supports and lexicon pronunciations applied
+export const renderScript = (
+  text: string,
+  capabilities: ScriptCapabilities,
+  lexicon: PronunciationEntry[] = []
+): string => {
+  const { tokens } = parseScript(text);
+  return collapseSpaces(
+    applyLexicon(tokens, lexicon)
+      .map(token => {
+        switch (token.type) {
+          case "pause":
+            return capabilities.breakTags
+              ? ` <break time="${(Math.min(token.ms, capabilities.maxBreakMs) / 1000).toFixed(1)}s" /> `
+              : " ... "; // most engines pause briefly at an ellipsis
+          case "emphasis":
+            return capabilities.emphasisTags ? `<emphasis level="strong">${token.text}</emphasis>` : token.text;
+          case "pronounce":
+            if (!token.ipa) return token.pronunciation;
+            // IPA can't be read out as text, so without phoneme support the word is left as written
+            return capabilities.phonemeTags
+              ? `<phoneme alphabet="ipa" ph="${token.pronunciation.replace(/"/g, "&quot;")}">${token.text}</phoneme>`
+              : token.text;
+          default:
+            return token.text;
+        }
+      })
+      .join("")
+  );
+};
+
+// 1-based line and column of an offset, for error messages
+export const getLineAndColumn = (text: string, offset: number): { line: number; column: number } => {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
@@ -0,0 +1,273 @@
+import { AudioSettings, BackgroundMusic } from "@/lib/types";
+import {
+  applyGainCurve,
+  AudioTrack,
+  decodeAudio,
+  GainCurve,
+  getTrimmedRange,
+  MIX_CHANNELS,
+  MIX_SAMPLE_RATE,
+} from "@/lib/render/audio";
+import { fetchUploadedTrackAudio } from "@/lib/musicStore";
+
+// Background music: a small bundled catalogue, synthesized in the browser so it is royalty free by
+// construction and adds nothing to the download, plus whatever the user uploads
+
+interface Note {
+  time: number; // seconds from the start of the loop
+  duration: number;
+  frequency: number;
+  gain: number;
+  type: OscillatorType;
+  pluck?: boolean; // sharp attack and a decay, instead of a slow swell
+  pan?: number; // -1 to 1
+  sweepTo?: number; // frequency to glide down to, for drums
+}
+
+interface Recipe {
+  length: number; // seconds; every note ends within the loop so it repeats without a seam
+  notes: Note[];
+}
+
+const midiToFrequency = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+// I-vi-IV-V in C, as MIDI notes
+const PROGRESSION = [
+  [60, 64, 67, 71],
+  [57, 60, 64, 67],
+  [53, 57, 60, 64],
+  [55, 59, 62, 65],
+];
+
+const padRecipe = (): Recipe => {
+  const chordLength = 4;
+  const notes = PROGRESSION.flatMap((chord, index) =>
+    chord.map((note, voice) => ({
+      time: index * chordLength,
+      duration: chordLength,
+      frequency: midiToFrequency(note),
+      gain: 0.07,
+      type: "triangle" as const,
+      pan: voice % 2 === 0 ? -0.4 : 0.4,
+    }))
+  );
+  return { length: PROGRESSION.length * chordLength, notes };
+};
+
+const arpeggioRecipe = (): Recipe => {
+  const step = 60 / 90 / 2; // eighth notes at 90 bpm
+  const pattern = [0, 1, 2, 3, 2, 1, 2, 3];
+  const notes: Note[] = [];
+  [...PROGRESSION, ...PROGRESSION].forEach((chord, index) => {
+    const start = index * pattern.length * step;
+    pattern.forEach((voice, position) => {
+      notes.push({
+        time: start + position * step,
+        duration: step * 2,
+        frequency: midiToFrequency(chord[voice] + 12),
+        gain: 0.12,
+        type: "sine",
+        pluck: true,
+        pan: position % 2 === 0 ? -0.3 : 0.3,
+      });
+    });
+    notes.push({
+      time: start,
+      duration: pattern.length * step,
+      frequency: midiToFrequency(chord[0] - 12),
+      gain: 0.08,
+      type: "triangle",
+    });
+  });
+  return { length: PROGRESSION.length * 2 * pattern.length * step, notes };
+};
+
+const upbeatRecipe = (): Recipe => {
+  const beat = 60 / 120;
+  const notes: Note[] = [];
+  [...PROGRESSION, ...PROGRESSION].forEach((chord, index) => {
+    const start = index * 4 * beat;
+    for (let i = 0; i < 4; i++) {
+      const time = start + i * beat;
+      notes.push({ time, duration: 0.3, frequency: 120, sweepTo: 45, gain: 0.35, type: "sine", pluck: true });
+      notes.push({ time, duration: beat * 0.9, frequency: midiToFrequency(chord[0] - 24), gain: 0.12, type: "triangle", pluck: true });
+      // Chord stabs on the off-beats
+      chord.slice(1).forEach((note, voice) => {
+        notes.push({
+          time: time + beat / 2,
+          duration: beat / 2,
+          frequency: midiToFrequency(note),
+          gain: 0.05,
+          type: "square",
+          pluck: true,
+          pan: voice - 1,
+        });
+      });
+    }
+  });
+  return { length: PROGRESSION.length * 2 * 4 * beat, notes };
+};
+
+const RECIPES: Record<string, { name: string; recipe: Recipe }> = {
+  "bundled-morning-haze": { name: "Morning Haze (ambient)", recipe: padRecipe() },
+  "bundled-soft-focus": { name: "Soft Focus (gentle)", recipe: arpeggioRecipe() },
+  "bundled-bright-steps": { name: "Bright Steps (upbeat)", recipe: upbeatRecipe() },
+};
+
+export const BUNDLED_TRACKS: BackgroundMusic[] = Object.entries(RECIPES).map(([id, { name, recipe }]) => ({
+  id,
+  name,
+  duration: recipe.length,
+  bundled: true,
+}));
+
+const renderRecipe = async ({ length, notes }: Recipe, sampleRate = MIX_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(MIX_CHANNELS, Math.ceil(length * sampleRate), sampleRate);
+
+  // Take the edge off the raw oscillators
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = 3000;
+  filter.connect(context.destination);
+
+  notes.forEach(note => {
+    const end = Math.min(length, note.time + note.duration);
+    const oscillator = context.createOscillator();
+    oscillator.type = note.type;
+    oscillator.frequency.setValueAtTime(note.frequency, note.time);
+    if (note.sweepTo) {
+      oscillator.frequency.exponentialRampToValueAtTime(note.sweepTo, end);
+    }
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, note.time);
+    if (note.pluck) {
+      gain.gain.linearRampToValueAtTime(note.gain, note.time + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    } else {
+      const swell = Math.min(1, (end - note.time) / 3);
+      gain.gain.linearRampToValueAtTime(note.gain, note.time + swell);
+      gain.gain.setValueAtTime(note.gain, end - swell);
+      gain.gain.linearRampToValueAtTime(0, end);
+    }
+
+    const panner = context.createStereoPanner();
+    panner.pan.value = note.pan || 0;
+
+    oscillator.connect(gain).connect(panner).connect(filter);
+    oscillator.start(note.time);
+    oscillator.stop(end);
+  });
+
+  return context.startRendering();
+};
+
+// Decoded or rendered tracks by id, so previewing and exporting the same track only does the work once
+const musicCache = new Map<string, Promise<AudioBuffer>>();
+
+export const loadMusic = (id: string): Promise<AudioBuffer> => {
+  const cached = musicCache.get(id);
+  if (cached) return cached;
+
+  const music = RECIPES[id]
+    ? renderRecipe(RECIPES[id].recipe)
+    : fetchUploadedTrackAudio(id).then(blob => {
+        if (!blob) throw new Error("The selected music track is no longer in your library");
+        return decodeAudio(blob);
+      });
+  musicCache.set(id, music);
+  music.catch(() => musicCache.delete(id));
+  return music;
+};
+
+export const forgetMusic = (id: string) => {
+  musicCache.delete(id);
+};
+
+// The settings that shape how the music sounds in the mix
+export type MusicMixSettings = Pick<
+  AudioSettings,
+  "backgroundMusicVolume" | "fadeIn" | "fadeOut" | "loopMusic" | "musicTrimStart" | "musicTrimEnd"
+>;
+
+// The music as a track of the export mix, which ends it with the video, ducked under the voiceover if a
+// ducking curve is given
+export const getMusicAudioTrack = (
+  settings: MusicMixSettings,
+  buffer: AudioBuffer,
+  ducking?: GainCurve | null
+): AudioTrack => ({
+  source: buffer,
+  gain: settings.backgroundMusicVolume / 100,
+  fadeIn: settings.fadeIn,
+  fadeOut: settings.fadeOut,
+  loop: settings.loopMusic,
+  trimStart: settings.musicTrimStart,
+  trimEnd: settings.musicTrimEnd ?? undefined,
+  gainCurve: ducking || undefined,
+});
+
+// The part of the track that plays, as trimmed in the settings
+export const getMusicRange = (settings: Pick<AudioSettings, "musicTrimStart" | "musicTrimEnd">, track: { duration: number }) => {
+  return getTrimmedRange(track, { trimStart: settings.musicTrimStart, trimEnd: settings.musicTrimEnd ?? undefined });
+};
+
+// Play the music as it will sound in the export, starting part way into the video. The volume and fades
+// follow the same envelope as mixAudioTracks, and the ducking the same curve. Returns a function that stops
+// playback
+export const playMusic = (
+  buffer: AudioBuffer,
+  settings: AudioSettings,
+  { from = 0, duration, ducking }: { from?: number; duration: number; ducking?: GainCurve | null }
+): (() => void) => {
+  const range = getMusicRange(settings, buffer);
+  const length = range.end - range.start;
+  const end = settings.loopMusic ? duration : Math.min(duration, length);
+  if (from >= end || length <= 0) return () => {};
+
+  const context = new AudioContext();
+  const gain = settings.backgroundMusicVolume / 100;
+  const fadeIn = Math.min(settings.fadeIn, end / 2);
+  const fadeOut = Math.min(settings.fadeOut, end / 2);
+
+  // Gain of the envelope at a point on the timeline
+  const envelope = (time: number): number => {
+    let level = gain;
+    if (fadeIn > 0) level = Math.min(level, (gain * time) / fadeIn);
+    if (fadeOut > 0) level = Math.min(level, (gain * (end - time)) / fadeOut);
+    return Math.max(0, level);
+  };
+
+  // Timeline times as audio clock times
+  const now = context.currentTime;
+  const at = (time: number) => now + time - from;
+
+  const gainNode = context.createGain();
+  gainNode.gain.setValueAtTime(envelope(from), now);
+  if (from < fadeIn) {
+    gainNode.gain.linearRampToValueAtTime(gain, at(fadeIn));
+  }
+  if (fadeOut > 0) {
+    if (end - fadeOut > from) gainNode.gain.setValueAtTime(envelope(end - fadeOut), at(end - fadeOut));
+    gainNode.gain.linearRampToValueAtTime(0, at(end));
+  }
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = settings.loopMusic;
+  source.loopStart = range.start;
+  source.loopEnd = range.end;
+  let output: AudioNode = source.connect(gainNode);
+  if (ducking) {
+    const duckingNode = context.createGain();
+    applyGainCurve(duckingNode.gain, ducking, now, from);
+    output = output.connect(duckingNode);
+  }
+  output.connect(context.destination);
+  source.start(now, range.start + (settings.loopMusic ? from % length : from));
+  source.stop(at(end));
+
+  return () => {
+    context.close();
+  };
+};
@@ -0,0 +1,110 @@
+import { BackgroundMusic, SoundEffect } from "@/lib/types";
+
+// Music and sound effects the user uploaded, kept in IndexedDB so the library survives a reload without
+// uploading anywhere
+
+const DB_NAME = "music-library";
+const DB_VERSION = 1;
+const TRACK_STORE = "tracks";
+const EFFECT_STORE = "effects";
+
+type StoreName = typeof TRACK_STORE | typeof EFFECT_STORE;
+
+interface StoredTrack {
+  id: string;
+  name: string;
+  blob: Blob;
+  duration: number;
+  createdAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(TRACK_STORE, { keyPath: "id" });
+        request.result.createObjectStore(EFFECT_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+// Object URLs are made once per track, since the library is listed again after every change
+const trackUrls = new Map<string, string>();
+
+const toLibraryItem = (track: StoredTrack): BackgroundMusic => {
+  if (!trackUrls.has(track.id)) {
+    trackUrls.set(track.id, URL.createObjectURL(track.blob));
+  }
+  return { id: track.id, name: track.name, url: trackUrls.get(track.id), duration: track.duration };
+};
+
+const fetchUploads = async (store: StoreName): Promise<BackgroundMusic[]> => {
+  const tracks = await requestToPromise<StoredTrack[]>((await getStore(store, "readonly")).getAll());
+  return tracks.sort((a, b) => a.createdAt - b.createdAt).map(toLibraryItem);
+};
+
+const fetchUploadAudio = async (store: StoreName, id: string): Promise<Blob | null> => {
+  const track = await requestToPromise<StoredTrack | undefined>((await getStore(store, "readonly")).get(id));
+  return track?.blob || null;
+};
+
+const saveUpload = async (store: StoreName, file: File, duration: number): Promise<BackgroundMusic> => {
+  const track: StoredTrack = {
+    id: `upload-${crypto.randomUUID()}`,
+    name: file.name.replace(/\.[^.]+$/, ""),
+    blob: file,
+    duration,
+    createdAt: Date.now(),
+  };
+  await requestToPromise((await getStore(store, "readwrite")).put(track));
+  return toLibraryItem(track);
+};
+
+const deleteUpload = async (store: StoreName, id: string) => {
+  await requestToPromise((await getStore(store, "readwrite")).delete(id));
+  const url = trackUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    trackUrls.delete(id);
+  }
+};
+
+export const fetchUploadedTracks = (): Promise<BackgroundMusic[]> => fetchUploads(TRACK_STORE);
+
+export const fetchUploadedTrackAudio = (id: string): Promise<Blob | null> => fetchUploadAudio(TRACK_STORE, id);
+
+export const saveUploadedTrack = (file: File, duration: number): Promise<BackgroundMusic> =>
+  saveUpload(TRACK_STORE, file, duration);
+
+export const deleteUploadedTrack = (id: string) => deleteUpload(TRACK_STORE, id);
+
+export const fetchUploadedEffects = (): Promise<SoundEffect[]> => fetchUploads(EFFECT_STORE);
+
+export const fetchUploadedEffectAudio = (id: string): Promise<Blob | null> => fetchUploadAudio(EFFECT_STORE, id);
+
+export const saveUploadedEffect = (file: File, duration: number): Promise<SoundEffect> =>
+  saveUpload(EFFECT_STORE, file, duration);
+
+export const deleteUploadedEffect = (id: string) => deleteUpload(EFFECT_STORE, id);
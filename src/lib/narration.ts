@@ -0,0 +1,166 @@
+import { CaptionSegment } from "@/lib/types";
+import { encodeWav, getAudioRecorderMimeType } from "@/lib/render/audio";
+import { generateAlignedScriptTimings, generateScriptTimings, getSpokenScript } from "@/lib/speakers";
+import { TtsProvider } from "@/lib/tts/provider";
+
+// Narration recorded from the microphone instead of synthesized, cleaned up and timed so it can stand in for
+// a TTS voiceover
+
+export interface NarrationEdit {
+  trimStart: number; // seconds cut from the start
+  trimEnd: number; // seconds cut from the end
+  gateThreshold: number | null; // dBFS below which the noise gate mutes, null when off
+}
+
+export const DEFAULT_NARRATION_EDIT: NarrationEdit = { trimStart: 0, trimEnd: 0, gateThreshold: null };
+export const DEFAULT_GATE_THRESHOLD = -50;
+
+export interface MicrophoneRecording {
+  getLevel: () => number; // peak of the most recent audio, 0-1
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+// Start recording from the default microphone. Processing that would colour the voice is turned off; the
+// noise gate and trim are applied afterwards, where they can be undone
+export const startMicrophoneRecording = async (): Promise<MicrophoneRecording> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === "undefined") {
+    throw new Error("This browser can't record from a microphone");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch {
+    throw new Error("Allow microphone access to record narration");
+  }
+
+  // The level meter taps the same stream through an analyser
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  const mimeType = getAudioRecorderMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+  };
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+      let peak = 0;
+      for (let i = 0; i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    },
+    stop: async () => {
+      const stopped = new Promise(resolve => recorder.addEventListener("stop", resolve, { once: true }));
+      recorder.stop();
+      await stopped;
+      release();
+      return new Blob(chunks, { type: recorder.mimeType || mimeType });
+    },
+    cancel: () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      release();
+    },
+  };
+};
+
+const trimAudio = (buffer: AudioBuffer, start: number, end: number): AudioBuffer => {
+  const first = Math.min(buffer.length, Math.round(start * buffer.sampleRate));
+  const last = Math.max(first, buffer.length - Math.round(end * buffer.sampleRate));
+  const output = new AudioBuffer({
+    length: Math.max(1, last - first),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    output.copyToChannel(buffer.getChannelData(channel).subarray(first, last), channel);
+  }
+  return output;
+};
+
+const GATE_WINDOW = 0.01; // seconds of audio per level measurement
+const GATE_HOLD = 0.15; // stays open this long after the level drops, so word endings aren't clipped
+const GATE_ATTACK = 0.005;
+const GATE_RELEASE = 0.08;
+
+// Mute the audio wherever its level stays under the threshold, such as room noise between sentences
+export const applyNoiseGate = (buffer: AudioBuffer, thresholdDb: number): AudioBuffer => {
+  const { sampleRate, numberOfChannels, length } = buffer;
+  const threshold = 10 ** (thresholdDb / 20);
+  const windowSize = Math.max(1, Math.round(GATE_WINDOW * sampleRate));
+  const holdWindows = Math.ceil(GATE_HOLD / GATE_WINDOW);
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+
+  // Whether the gate is open in each window, by the RMS level across all channels
+  const open: boolean[] = [];
+  let heldFor = holdWindows;
+  for (let start = 0; start < length; start += windowSize) {
+    const end = Math.min(length, start + windowSize);
+    let sumOfSquares = 0;
+    channels.forEach(data => {
+      for (let i = start; i < end; i++) sumOfSquares += data[i] * data[i];
+    });
+    const rms = Math.sqrt(sumOfSquares / ((end - start) * numberOfChannels));
+    heldFor = rms >= threshold ? 0 : heldFor + 1;
+    open.push(heldFor <= holdWindows);
+  }
+
+  // Ramp the gain between open and closed rather than switching, which would click
+  const attack = 1 - Math.exp(-1 / (GATE_ATTACK * sampleRate));
+  const release = 1 - Math.exp(-1 / (GATE_RELEASE * sampleRate));
+  const output = new AudioBuffer({ length, numberOfChannels, sampleRate });
+  const outputChannels = Array.from({ length: numberOfChannels }, (_, channel) => output.getChannelData(channel));
+  let gain = open[0] ? 1 : 0;
+  for (let i = 0; i < length; i++) {
+    const target = open[Math.floor(i / windowSize)] ? 1 : 0;
+    gain += (target - gain) * (target > gain ? attack : release);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      outputChannels[channel][i] = channels[channel][i] * gain;
+    }
+  }
+  return output;
+};
+
+// The take as it will be used: trimmed, then gated
+export const processNarration = (buffer: AudioBuffer, edit: NarrationEdit): AudioBuffer => {
+  const trimmed = edit.trimStart > 0 || edit.trimEnd > 0 ? trimAudio(buffer, edit.trimStart, edit.trimEnd) : buffer;
+  return edit.gateThreshold === null ? trimmed : applyNoiseGate(trimmed, edit.gateThreshold);
+};
+
+// Caption timings for a take: aligned to the spoken words when the provider can align a recording, spread
+// evenly over the take otherwise or when alignment fails
+export const timeNarration = async (
+  buffer: AudioBuffer,
+  script: string,
+  { provider, apiKey }: { provider?: TtsProvider | null; apiKey?: string } = {}
+): Promise<{ segments: CaptionSegment[]; aligned: boolean }> => {
+  if (provider?.alignSpeech && (!provider.requiresApiKey || apiKey)) {
+    try {
+      const alignment = await provider.alignSpeech({ audio: encodeWav(buffer), text: getSpokenScript(script), apiKey });
+      const segments = generateAlignedScriptTimings(alignment, script);
+      if (segments.length > 0) return { segments, aligned: true };
+    } catch (error) {
+      console.warn("Forced alignment failed, spreading captions evenly:", error);
+    }
+  }
+  return { segments: generateScriptTimings(script, buffer.duration), aligned: false };
+};
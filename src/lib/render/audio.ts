@@ -0,0 +1,180 @@
+export const MIX_SAMPLE_RATE = 48000;
+export const MIX_CHANNELS = 2;
+
+// Decoded PCM, satisfied by AudioBuffer and by the plain object rebuilt inside the render worker
+export interface AudioSamples {
+  sampleRate: number;
+  numberOfChannels: number;
+  length: number; // in sample frames
+  getChannelData: (channel: number) => Float32Array;
+}
+
+export const createAudioSamples = (sampleRate: number, channels: Float32Array[]): AudioSamples => ({
+  sampleRate,
+  numberOfChannels: channels.length,
+  length: channels[0]?.length || 0,
+  getChannelData: (channel: number) => channels[channel],
+});
+
+// Gain automation sampled at a fixed rate from the start of the timeline, such as music ducking
+export interface GainCurve {
+  values: Float32Array; // linear gain
+  rate: number; // values per second
+}
+
+export interface AudioTrack {
+  source: Blob | string | AudioBuffer; // audio data, a URL to fetch it from, or already decoded PCM
+  gain?: number; // linear, 1 = unchanged
+  offset?: number; // start position on the timeline, in seconds
+  duration?: number; // play at most this long, in seconds
+  fadeIn?: number; // in seconds
+  fadeOut?: number; // in seconds
+  loop?: boolean; // repeat until the end of the mix
+  trimStart?: number; // seconds into the source it starts at
+  trimEnd?: number; // seconds into the source it ends at; looping repeats the part between the trims
+  gainCurve?: GainCurve; // multiplied on top of the gain and fades
+}
+
+// Schedule a curve on a gain parameter at startTime, beginning the given number of seconds into the curve
+export const applyGainCurve = (param: AudioParam, curve: GainCurve, startTime: number, from = 0) => {
+  const values = curve.values.subarray(Math.floor(from * curve.rate));
+  if (values.length < 2) return;
+  param.setValueCurveAtTime(values, startTime, values.length / curve.rate);
+};
+
+// The part of the source a track plays, in seconds, with the trims kept within the audio
+export const getTrimmedRange = (
+  buffer: { duration: number },
+  { trimStart = 0, trimEnd }: Pick<AudioTrack, "trimStart" | "trimEnd">
+): { start: number; end: number } => {
+  const start = Math.min(Math.max(0, trimStart), buffer.duration);
+  return { start, end: Math.max(start, Math.min(trimEnd ?? buffer.duration, buffer.duration)) };
+};
+
+// Decode compressed audio into PCM at the mix sample rate
+export const decodeAudio = async (
+  source: Blob | string | AudioBuffer,
+  sampleRate = MIX_SAMPLE_RATE
+): Promise<AudioBuffer> => {
+  if (source instanceof AudioBuffer && source.sampleRate === sampleRate) return source;
+  if (source instanceof AudioBuffer) {
+    // Resample through an offline context rather than re-decoding
+    const context = new OfflineAudioContext(
+      source.numberOfChannels,
+      Math.ceil(source.duration * sampleRate),
+      sampleRate
+    );
+    const node = context.createBufferSource();
+    node.buffer = source;
+    node.connect(context.destination);
+    node.start();
+    return context.startRendering();
+  }
+
+  const blob = typeof source === "string" ? await fetch(source).then(res => res.blob()) : source;
+  const data = await blob.arrayBuffer();
+
+  // An offline context is enough for decoding and doesn't need a user gesture
+  const context = new OfflineAudioContext(MIX_CHANNELS, 1, sampleRate);
+  return context.decodeAudioData(data);
+};
+
+// Render all tracks into a single stereo buffer of the given length
+export const mixAudioTracks = async (
+  tracks: AudioTrack[],
+  duration: number,
+  sampleRate = MIX_SAMPLE_RATE
+): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const context = new OfflineAudioContext(MIX_CHANNELS, length, sampleRate);
+
+  for (const track of tracks) {
+    const buffer = await decodeAudio(track.source, sampleRate);
+    const offset = track.offset || 0;
+    const gain = track.gain ?? 1;
+    const { start: trimStart, end: trimEnd } = getTrimmedRange(buffer, track);
+    const end = Math.min(
+      duration,
+      offset + (track.loop ? Infinity : trimEnd - trimStart),
+      offset + (track.duration ?? Infinity)
+    );
+    if (end <= offset || trimEnd <= trimStart) continue;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = !!track.loop;
+    source.loopStart = trimStart;
+    source.loopEnd = trimEnd;
+
+    const gainNode = context.createGain();
+    const fadeIn = Math.min(track.fadeIn || 0, (end - offset) / 2);
+    const fadeOut = Math.min(track.fadeOut || 0, (end - offset) / 2);
+
+    gainNode.gain.setValueAtTime(fadeIn > 0 ? 0 : gain, offset);
+    if (fadeIn > 0) {
+      gainNode.gain.linearRampToValueAtTime(gain, offset + fadeIn);
+    }
+    if (fadeOut > 0) {
+      gainNode.gain.setValueAtTime(gain, end - fadeOut);
+      gainNode.gain.linearRampToValueAtTime(0, end);
+    }
+
+    let output: AudioNode = source.connect(gainNode);
+    if (track.gainCurve) {
+      const curveNode = context.createGain();
+      applyGainCurve(curveNode.gain, track.gainCurve, 0);
+      output = output.connect(curveNode);
+    }
+    output.connect(context.destination);
+    source.start(offset, trimStart);
+    source.stop(end);
+  }
+
+  return context.startRendering();
+};
+
+// The first audio format this browser's MediaRecorder can write, or "" to leave the choice to the browser
+export const getAudioRecorderMimeType = (): string => {
+  const candidates = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || "";
+};
+
+// Serialize PCM into a 16-bit WAV file, for tools that can't take raw AudioBuffers
+export const encodeWav = (buffer: AudioSamples): Blob => {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = 2;
+  const dataSize = buffer.length * channels * bytesPerSample;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: "audio/wav" });
+};
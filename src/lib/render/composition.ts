@@ -0,0 +1,159 @@
+import {
+  AspectRatio,
+  CaptionSegment,
+  CaptionSettings,
+  MediaItem,
+  Resolution,
+  TransitionEffect,
+  VideoConfig,
+} from "@/lib/types";
+
+// Images have no intrinsic length, so each one is held on screen for this long
+export const DEFAULT_IMAGE_DURATION = 5;
+
+// Length of the transition between two consecutive clips, in seconds
+export const TRANSITION_DURATION = 0.5;
+
+export interface Clip {
+  media: MediaItem;
+  start: number; // position on the timeline, in seconds
+  duration: number; // in seconds
+}
+
+export interface Composition {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // in seconds
+  clips: Clip[];
+  transition: TransitionEffect;
+  captions: CaptionSettings;
+  captionSegments: CaptionSegment[];
+}
+
+const RESOLUTION_SHORT_SIDE: Record<Resolution, number> = {
+  "720p": 720,
+  "1080p": 1080,
+  "4K": 2160,
+};
+
+// Pixel dimensions of the exported video for a resolution and aspect ratio
+export const getOutputDimensions = (
+  resolution: Resolution,
+  aspectRatio: AspectRatio
+): { width: number; height: number } => {
+  const shortSide = RESOLUTION_SHORT_SIDE[resolution];
+  const longSide = Math.round((shortSide * 16) / 9);
+
+  switch (aspectRatio) {
+    case "9:16":
+      return { width: shortSide, height: longSide };
+    case "1:1":
+      return { width: shortSide, height: shortSide };
+    case "16:9":
+    default:
+      return { width: longSide, height: shortSide };
+  }
+};
+
+export const getMediaDuration = (item: MediaItem): number => {
+  return item.duration || DEFAULT_IMAGE_DURATION;
+};
+
+// Lay the media items out back to back on the timeline
+export const buildClips = (media: MediaItem[]): Clip[] => {
+  let start = 0;
+  return media.map(item => {
+    const clip = { media: item, start, duration: getMediaDuration(item) };
+    start += clip.duration;
+    return clip;
+  });
+};
+
+export const buildComposition = ({
+  media,
+  videoConfig,
+  captions,
+  captionSegments,
+  minDuration = 0,
+}: {
+  media: MediaItem[];
+  videoConfig: VideoConfig;
+  captions: CaptionSettings;
+  captionSegments: CaptionSegment[];
+  minDuration?: number;
+}): Composition => {
+  const { width, height } = getOutputDimensions(videoConfig.resolution, videoConfig.aspectRatio);
+  const clips = buildClips(media);
+  const mediaDuration = clips.reduce((total, clip) => total + clip.duration, 0);
+
+  // When the voiceover runs longer than the media, the last clip is held until it ends
+  const duration = Math.max(mediaDuration, minDuration);
+  if (clips.length > 0) {
+    const last = clips[clips.length - 1];
+    last.duration = duration - last.start;
+  }
+
+  return {
+    width,
+    height,
+    fps: videoConfig.frameRate,
+    duration,
+    clips,
+    transition: videoConfig.transition,
+    captions,
+    captionSegments,
+  };
+};
+
+export const getFrameCount = (composition: Composition): number => {
+  return Math.ceil(composition.duration * composition.fps);
+};
+
+export interface ActiveClip {
+  clip: Clip;
+  index: number;
+  localTime: number; // time relative to the clip start
+}
+
+export interface FrameLayout {
+  current: ActiveClip;
+  // Set while a transition into the next clip is running
+  next?: ActiveClip;
+  transitionProgress: number; // 0-1
+}
+
+// Transitions overlap the last moments of the outgoing clip
+const getTransitionDuration = (clip: Clip): number => Math.min(TRANSITION_DURATION, clip.duration / 2);
+
+// When each transition between consecutive clips begins, in seconds
+export const getTransitionStarts = (clips: Clip[], transition: TransitionEffect): number[] => {
+  if (transition === "none") return [];
+  return clips.slice(0, -1).map(clip => clip.start + clip.duration - getTransitionDuration(clip));
+};
+
+// Work out which clips are visible at a given time and how far any transition has progressed
+export const getFrameLayout = (composition: Composition, time: number): FrameLayout | null => {
+  const { clips } = composition;
+  if (clips.length === 0) return null;
+
+  let index = clips.findIndex(clip => time < clip.start + clip.duration);
+  if (index === -1) index = clips.length - 1;
+
+  const clip = clips[index];
+  const current = { clip, index, localTime: Math.max(0, time - clip.start) };
+  const nextClip = clips[index + 1];
+
+  const transitionDuration = getTransitionDuration(clip);
+  const transitionStart = clip.start + clip.duration - transitionDuration;
+
+  if (composition.transition === "none" || !nextClip || time < transitionStart) {
+    return { current, transitionProgress: 0 };
+  }
+
+  return {
+    current,
+    next: { clip: nextClip, index: index + 1, localTime: 0 },
+    transitionProgress: Math.min(1, (time - transitionStart) / transitionDuration),
+  };
+};
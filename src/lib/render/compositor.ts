@@ -0,0 +1,171 @@
+import { findCaptionAt, formatCaptionLines } from "@/lib/captions";
+import { getCaptionColor } from "@/lib/speakers";
+import { ActiveClip, Composition, getFrameLayout } from "@/lib/render/composition";
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Supplies the picture for a clip at a given local time (a seeked video, a decoded image...)
+export interface FrameSourceProvider {
+  getFrame: (active: ActiveClip) => Promise<CanvasImageSource | null>;
+}
+
+// Caption sizes in CaptionSettings are chosen against the on-screen preview, which is about this wide
+const CAPTION_REFERENCE_WIDTH = 600;
+
+// Factor from preview pixels to output pixels for caption sizes, margins and padding
+export const getCaptionScale = (width: number): number => width / CAPTION_REFERENCE_WIDTH;
+
+const getSourceSize = (source: CanvasImageSource): { width: number; height: number } => {
+  if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (typeof HTMLImageElement !== "undefined" && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if (typeof VideoFrame !== "undefined" && source instanceof VideoFrame) {
+    return { width: source.displayWidth, height: source.displayHeight };
+  }
+  const sized = source as { width: number | SVGAnimatedLength; height: number | SVGAnimatedLength };
+  return {
+    width: typeof sized.width === "number" ? sized.width : sized.width.baseVal.value,
+    height: typeof sized.height === "number" ? sized.height : sized.height.baseVal.value,
+  };
+};
+
+// Draw the source scaled to cover the whole frame, cropping the overflow (like object-fit: cover)
+const drawCover = (ctx: RenderContext, source: CanvasImageSource, width: number, height: number) => {
+  const size = getSourceSize(source);
+  if (!size.width || !size.height) return;
+
+  const scale = Math.max(width / size.width, height / size.height);
+  const drawWidth = size.width * scale;
+  const drawHeight = size.height * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const drawTransition = (
+  ctx: RenderContext,
+  composition: Composition,
+  current: CanvasImageSource | null,
+  next: CanvasImageSource | null,
+  progress: number
+) => {
+  const { width, height } = composition;
+
+  if (current) drawCover(ctx, current, width, height);
+  if (!next) return;
+
+  ctx.save();
+  switch (composition.transition) {
+    case "fade":
+      ctx.globalAlpha = progress;
+      drawCover(ctx, next, width, height);
+      break;
+    case "slide":
+      ctx.translate(width * (1 - progress), 0);
+      drawCover(ctx, next, width, height);
+      break;
+    case "zoom": {
+      const scale = 1.2 - 0.2 * progress;
+      ctx.globalAlpha = progress;
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(scale, scale);
+      ctx.translate(-width / 2, -height / 2);
+      drawCover(ctx, next, width, height);
+      break;
+    }
+    case "wipe":
+      ctx.beginPath();
+      ctx.rect(0, 0, width * progress, height);
+      ctx.clip();
+      drawCover(ctx, next, width, height);
+      break;
+    default:
+      break;
+  }
+  ctx.restore();
+};
+
+// Burn the active caption into the frame, mirroring the styling of the preview overlay
+export const drawCaption = (ctx: RenderContext, composition: Composition, text: string, speaker?: string) => {
+  const lines = formatCaptionLines(text);
+  if (lines.length === 0) return;
+
+  const { width, height, captions } = composition;
+  const scale = getCaptionScale(width);
+  const fontSize = captions.fontSize * scale;
+  const lineHeight = fontSize * 1.3;
+  const paddingX = 12 * scale;
+  const paddingY = 8 * scale;
+  const margin = 16 * scale;
+
+  ctx.save();
+  ctx.font = [
+    captions.textStyle.italic ? "italic" : "normal",
+    captions.textStyle.bold ? "bold" : "normal",
+    `${fontSize}px`,
+    captions.font,
+  ].join(" ");
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.globalAlpha = captions.opacity / 100;
+
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const boxWidth = Math.min(textWidth + paddingX * 2, width * 0.9);
+  const boxHeight = lines.length * lineHeight + paddingY * 2;
+
+  let boxTop: number;
+  switch (captions.position) {
+    case "top":
+      boxTop = margin;
+      break;
+    case "middle":
+      boxTop = (height - boxHeight) / 2;
+      break;
+    case "bottom":
+    default:
+      boxTop = height - margin - boxHeight;
+      break;
+  }
+
+  // Translucent backing box
+  ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+  ctx.beginPath();
+  ctx.roundRect((width - boxWidth) / 2, boxTop, boxWidth, boxHeight, 6 * scale);
+  ctx.fill();
+
+  // Text with a soft shadow for readability
+  ctx.fillStyle = getCaptionColor(captions, speaker);
+  ctx.shadowColor = "rgba(0, 0, 0, 0.8)";
+  ctx.shadowOffsetY = scale;
+  ctx.shadowBlur = 2 * scale;
+  lines.forEach((line, index) => {
+    ctx.fillText(line, width / 2, boxTop + paddingY + lineHeight * (index + 0.5), width * 0.9 - paddingX * 2);
+  });
+  ctx.restore();
+};
+
+// Composite a single frame of the video at the given time
+export const renderFrame = async (
+  ctx: RenderContext,
+  composition: Composition,
+  time: number,
+  provider: FrameSourceProvider
+) => {
+  const { width, height } = composition;
+
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, width, height);
+
+  const layout = getFrameLayout(composition, time);
+  if (layout) {
+    const current = await provider.getFrame(layout.current);
+    const next = layout.next ? await provider.getFrame(layout.next) : null;
+    drawTransition(ctx, composition, current, next, layout.transitionProgress);
+  }
+
+  const caption = findCaptionAt(composition.captionSegments, time);
+  if (caption) {
+    drawCaption(ctx, composition, caption.text, caption.speaker);
+  }
+};
@@ -0,0 +1,37 @@
+import { DuckingSettings } from "@/lib/types";
+import { AudioSamples, GainCurve } from "@/lib/render/audio";
+
+// Gain values per second of a ducking curve. Fine enough for attacks of a few tens of milliseconds
+const CURVE_RATE = 100;
+
+// Follow the voiceover's level and turn it into the gain the music is multiplied by: 1 while the voice is
+// quiet, falling towards -depth dB while it is above the threshold. Computed once from the decoded voiceover
+// so the preview and the export duck in exactly the same places
+export const computeDuckingCurve = (voice: AudioSamples, settings: DuckingSettings): GainCurve => {
+  const windowSize = Math.max(1, Math.round(voice.sampleRate / CURVE_RATE));
+  const channels = Array.from({ length: voice.numberOfChannels }, (_, channel) => voice.getChannelData(channel));
+  // Runs on past the end of the voice so the music has time to come back up
+  const tail = Math.ceil(settings.release * 5 * CURVE_RATE);
+  const values = new Float32Array(Math.max(2, Math.ceil(voice.length / windowSize) + tail));
+
+  const attack = 1 - Math.exp(-1 / (Math.max(0.001, settings.attack) * CURVE_RATE));
+  const release = 1 - Math.exp(-1 / (Math.max(0.001, settings.release) * CURVE_RATE));
+  let reduction = 0; // dB
+
+  for (let index = 0; index < values.length; index++) {
+    const start = Math.min(voice.length, index * windowSize);
+    const end = Math.min(voice.length, start + windowSize);
+    let sumOfSquares = 0;
+    channels.forEach(data => {
+      for (let i = start; i < end; i++) sumOfSquares += data[i] * data[i];
+    });
+    const count = (end - start) * channels.length;
+    const level = count > 0 ? 20 * Math.log10(Math.sqrt(sumOfSquares / count) || 1e-10) : -Infinity;
+
+    const target = level >= settings.threshold ? settings.depth : 0;
+    reduction += (target - reduction) * (target > reduction ? attack : release);
+    values[index] = 10 ** (-reduction / 20);
+  }
+
+  return { values, rate: CURVE_RATE };
+};
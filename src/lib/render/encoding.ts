@@ -0,0 +1,72 @@
+import { ExportFormat, ExportQuality } from "@/lib/types";
+import { AudioSamples } from "@/lib/render/audio";
+import { Composition } from "@/lib/render/composition";
+import { FrameSourceProvider } from "@/lib/render/compositor";
+
+// What every encoder backend receives
+export interface EncodeOptions {
+  composition: Composition;
+  provider: FrameSourceProvider;
+  audio: AudioSamples | null;
+  quality: ExportQuality;
+  onProgress: (fraction: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+// Bits per pixel per frame for each quality preset, tuned for H.264/VP9 talking-head style content
+const QUALITY_BITS_PER_PIXEL: Record<ExportQuality, number> = {
+  draft: 0.05,
+  standard: 0.1,
+  high: 0.18,
+};
+
+const QUALITY_AUDIO_BITRATE: Record<ExportQuality, number> = {
+  draft: 96_000,
+  standard: 128_000,
+  high: 192_000,
+};
+
+// Seconds between forced keyframes; shorter GOPs cost bitrate but make the file easier to scrub
+const QUALITY_KEYFRAME_INTERVAL: Record<ExportQuality, number> = {
+  draft: 4,
+  standard: 2,
+  high: 1,
+};
+
+// x264 presets used by the software encoder
+const QUALITY_X264_PRESET: Record<ExportQuality, string> = {
+  draft: "ultrafast",
+  standard: "veryfast",
+  high: "medium",
+};
+
+export const getVideoBitrate = (width: number, height: number, fps: number, quality: ExportQuality): number => {
+  return Math.round(width * height * fps * QUALITY_BITS_PER_PIXEL[quality]);
+};
+
+export const getAudioBitrate = (quality: ExportQuality): number => {
+  return QUALITY_AUDIO_BITRATE[quality];
+};
+
+export const getKeyframeInterval = (fps: number, quality: ExportQuality): number => {
+  return Math.round(fps * QUALITY_KEYFRAME_INTERVAL[quality]);
+};
+
+export const getX264Preset = (quality: ExportQuality): string => {
+  return QUALITY_X264_PRESET[quality];
+};
+
+const RECORDER_MIME_TYPES: Record<ExportFormat, string[]> = {
+  webm: ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"],
+  mp4: ["video/mp4;codecs=avc1,mp4a", "video/mp4"],
+};
+
+// First container/codec combination MediaRecorder can produce for the format, if any
+export const getRecorderMimeType = (format: ExportFormat): string | null => {
+  if (typeof MediaRecorder === "undefined") return null;
+  return RECORDER_MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+export const getExportFileName = (format: ExportFormat): string => {
+  return `faceless-video-${Date.now()}.${format}`;
+};
@@ -0,0 +1,98 @@
+import ffmpegCoreURL from "@ffmpeg/core?url";
+import ffmpegWasmURL from "@ffmpeg/core/wasm?url";
+import { encodeWav } from "@/lib/render/audio";
+import { getFrameCount } from "@/lib/render/composition";
+import { renderFrame } from "@/lib/render/compositor";
+import {
+  EncodeOptions,
+  getAudioBitrate,
+  getKeyframeInterval,
+  getVideoBitrate,
+  getX264Preset,
+} from "@/lib/render/encoding";
+
+// Writing frames into the wasm filesystem accounts for this share of the progress bar, x264 for the rest
+const FRAME_WRITE_SHARE = 0.5;
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Failed to capture frame"))),
+      "image/jpeg",
+      0.92
+    );
+  });
+};
+
+// Software MP4 encoder for browsers without WebCodecs: frames are handed to x264 running in ffmpeg.wasm
+export const encodeMp4WithFfmpeg = async ({
+  composition,
+  provider,
+  audio,
+  quality,
+  onProgress,
+  signal,
+}: EncodeOptions): Promise<Blob> => {
+  const [{ FFmpeg }, { fetchFile }] = await Promise.all([
+    import("@ffmpeg/ffmpeg"),
+    import("@ffmpeg/util"),
+  ]);
+
+  const ffmpeg = new FFmpeg();
+  // The core is bundled as assets and only fetched here, since it is ~30MB
+  await ffmpeg.load({ coreURL: ffmpegCoreURL, wasmURL: ffmpegWasmURL });
+
+  const { width, height, fps } = composition;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    ffmpeg.terminate();
+    throw new Error("Canvas rendering is not supported in this browser");
+  }
+
+  const totalFrames = getFrameCount(composition);
+
+  try {
+    for (let frame = 0; frame < totalFrames; frame++) {
+      signal?.throwIfAborted();
+      await renderFrame(ctx, composition, frame / fps, provider);
+      const jpeg = await canvasToJpeg(canvas);
+      await ffmpeg.writeFile(`frame_${String(frame).padStart(6, "0")}.jpg`, await fetchFile(jpeg));
+      onProgress(((frame + 1) / totalFrames) * FRAME_WRITE_SHARE);
+    }
+
+    if (audio) {
+      await ffmpeg.writeFile("audio.wav", await fetchFile(encodeWav(audio)));
+    }
+
+    ffmpeg.on("progress", ({ progress }) => {
+      onProgress(FRAME_WRITE_SHARE + Math.min(1, Math.max(0, progress)) * (1 - FRAME_WRITE_SHARE));
+    });
+
+    const args = [
+      "-framerate", String(fps),
+      "-i", "frame_%06d.jpg",
+      ...(audio ? ["-i", "audio.wav"] : []),
+      "-c:v", "libx264",
+      "-preset", getX264Preset(quality),
+      "-b:v", String(getVideoBitrate(width, height, fps, quality)),
+      "-g", String(getKeyframeInterval(fps, quality)),
+      "-pix_fmt", "yuv420p",
+      ...(audio ? ["-c:a", "aac", "-b:a", String(getAudioBitrate(quality)), "-shortest"] : []),
+      "-movflags", "+faststart",
+      "output.mp4",
+    ];
+
+    const exitCode = await ffmpeg.exec(args, -1, { signal });
+    if (exitCode !== 0) {
+      throw new Error("Software video encoding failed");
+    }
+
+    const data = await ffmpeg.readFile("output.mp4");
+    return new Blob([data], { type: "video/mp4" });
+  } finally {
+    ffmpeg.terminate();
+  }
+};
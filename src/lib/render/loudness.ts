@@ -0,0 +1,126 @@
+import { AudioSamples } from "@/lib/render/audio";
+
+// Integrated loudness as defined by ITU-R BS.1770-4 (the LUFS platforms normalize to): K-weighted mean square
+// over 400ms blocks, ignoring silence below -70 LUFS and then anything 10 LU below the average
+
+const BLOCK_SECONDS = 0.4;
+const HOPS_PER_BLOCK = 4; // blocks overlap by 75%
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+// Headroom kept when raising a quiet mix, so normalizing never clips
+const PEAK_CEILING = 10 ** (-1 / 20);
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The two K-weighting stages, a high shelf for the head and a high pass, for any sample rate
+const getKWeighting = (sampleRate: number): [Biquad, Biquad] => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+};
+
+// Sum of the squared K-weighted samples of one channel over each hop. The two stages are written out since
+// this runs for every sample of the mix
+const getHopEnergy = (data: Float32Array, [shelf, highPass]: [Biquad, Biquad], hopSize: number): Float64Array => {
+  const energy = new Float64Array(Math.floor(data.length / hopSize));
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0; // shelf state
+  let u1 = 0, u2 = 0, v1 = 0, v2 = 0; // high pass state
+
+  for (let i = 0; i < energy.length * hopSize; i++) {
+    const x = data[i];
+    const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+
+    const v = highPass.b0 * y + highPass.b1 * u1 + highPass.b2 * u2 - highPass.a1 * v1 - highPass.a2 * v2;
+    u2 = u1;
+    u1 = y;
+    v2 = v1;
+    v1 = v;
+
+    energy[Math.floor(i / hopSize)] += v * v;
+  }
+  return energy;
+};
+
+const toLoudness = (meanSquare: number): number => -0.691 + 10 * Math.log10(meanSquare);
+
+// Integrated loudness in LUFS, or null when the audio is silent or shorter than one block
+export const measureLoudness = (samples: AudioSamples): number | null => {
+  const stages = getKWeighting(samples.sampleRate);
+  const hopSize = Math.round((samples.sampleRate * BLOCK_SECONDS) / HOPS_PER_BLOCK);
+  const blockSize = hopSize * HOPS_PER_BLOCK;
+
+  const channels = Array.from({ length: samples.numberOfChannels }, (_, channel) =>
+    getHopEnergy(samples.getChannelData(channel), stages, hopSize)
+  );
+  const hops = channels[0]?.length || 0;
+
+  // Mean square of each block, summed over channels (all weighted 1 for mono and stereo)
+  const blocks: number[] = [];
+  for (let start = 0; start + HOPS_PER_BLOCK <= hops; start++) {
+    let sum = 0;
+    channels.forEach(energy => {
+      for (let hop = start; hop < start + HOPS_PER_BLOCK; hop++) sum += energy[hop];
+    });
+    blocks.push(sum / blockSize);
+  }
+
+  const audible = blocks.filter(block => toLoudness(block) > ABSOLUTE_GATE);
+  if (audible.length === 0) return null;
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const threshold = toLoudness(mean(audible)) + RELATIVE_GATE;
+  const gated = audible.filter(block => toLoudness(block) > threshold);
+  return toLoudness(mean(gated));
+};
+
+export const measurePeak = (samples: AudioSamples): number => {
+  let peak = 0;
+  for (let channel = 0; channel < samples.numberOfChannels; channel++) {
+    const data = samples.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+  }
+  return peak;
+};
+
+// Gain in dB that brings the audio to the target loudness, held back where it would push peaks past -1 dBFS
+export const getNormalizationGain = (loudness: number | null, peak: number, target: number): number => {
+  if (loudness === null || peak === 0) return 0;
+  const gain = target - loudness;
+  const headroom = 20 * Math.log10(PEAK_CEILING / peak);
+  return Math.min(gain, headroom);
+};
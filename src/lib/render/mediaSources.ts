@@ -0,0 +1,81 @@
+import { MediaItem } from "@/lib/types";
+import { ActiveClip } from "@/lib/render/composition";
+import { FrameSourceProvider } from "@/lib/render/compositor";
+
+// Keep seeks just inside the video so the last frame still decodes
+const END_OF_VIDEO_MARGIN = 0.05;
+
+const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for rendering"));
+    img.src = url;
+  });
+};
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Failed to load video for rendering"));
+    video.src = url;
+  });
+};
+
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  const target = Math.max(0, Math.min(time, (video.duration || 0) - END_OF_VIDEO_MARGIN));
+  if (Math.abs(video.currentTime - target) < 0.001) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const onSeeked = () => {
+      video.removeEventListener("seeked", onSeeked);
+      resolve();
+    };
+    video.addEventListener("seeked", onSeeked);
+    video.currentTime = target;
+  });
+};
+
+export interface MediaFrameProvider extends FrameSourceProvider {
+  // Element showing the media at the given time, for callers that work with media ids rather than clips
+  getElement: (mediaId: string, time: number) => Promise<HTMLImageElement | HTMLVideoElement | null>;
+  dispose: () => void;
+}
+
+// Load every media item into a drawable element up front, then serve frames by seeking
+export const createMediaFrameProvider = async (media: MediaItem[]): Promise<MediaFrameProvider> => {
+  const elements = new Map<string, HTMLImageElement | HTMLVideoElement>();
+
+  for (const item of media) {
+    if (elements.has(item.id)) continue;
+    elements.set(item.id, item.type === "video" ? await loadVideo(item.url) : await loadImage(item.url));
+  }
+
+  const getElement = async (mediaId: string, time: number) => {
+    const element = elements.get(mediaId);
+    if (!element) return null;
+
+    if (element instanceof HTMLVideoElement) {
+      await seekVideo(element, time);
+    }
+    return element;
+  };
+
+  return {
+    getFrame: (active: ActiveClip) => getElement(active.clip.media.id, active.localTime),
+    getElement,
+    dispose: () => {
+      elements.forEach(element => {
+        if (element instanceof HTMLVideoElement) {
+          element.removeAttribute("src");
+          element.load();
+        }
+      });
+      elements.clear();
+    },
+  };
+};
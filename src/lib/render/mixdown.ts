@@ -0,0 +1,83 @@
+import { AudioSettings, MediaItem } from "@/lib/types";
+import { AudioTrack, decodeAudio, GainCurve, mixAudioTracks } from "@/lib/render/audio";
+import { buildClips } from "@/lib/render/composition";
+import { getNormalizationGain, measureLoudness, measurePeak } from "@/lib/render/loudness";
+import { getMusicAudioTrack, MusicMixSettings } from "@/lib/music";
+
+// Everything that sounds in the video, before the per-source levels are applied
+export interface MixSources {
+  media: MediaItem[];
+  voiceover: AudioBuffer | null;
+  music: AudioBuffer | null;
+  ducking?: GainCurve | null; // dips the music under the voiceover
+  sfx?: AudioTrack[]; // already placed on the timeline
+}
+
+// The audio settings the mix depends on once the sources are loaded
+export type MixSettings = MusicMixSettings &
+  Pick<AudioSettings, "voiceoverVolume" | "clipVolume" | "sfxVolume" | "loudnessTarget">;
+
+export interface Mixdown {
+  buffer: AudioBuffer;
+  loudness: number | null; // integrated LUFS as mixed, null when silent
+  gain: number; // dB applied to reach the loudness target
+}
+
+// Sound of each video, by media id. Videos without a sound track resolve to null
+const clipAudioCache = new Map<string, Promise<AudioBuffer | null>>();
+
+export const loadClipAudio = (item: MediaItem): Promise<AudioBuffer | null> => {
+  if (!clipAudioCache.has(item.id)) {
+    clipAudioCache.set(item.id, decodeAudio(item.file).catch(() => null));
+  }
+  return clipAudioCache.get(item.id);
+};
+
+// The sources as mix tracks at their levels from the audio settings. Muted sources are left out
+export const getMixTracks = async (
+  { media, voiceover, music, ducking, sfx = [] }: MixSources,
+  settings: MixSettings
+): Promise<AudioTrack[]> => {
+  const tracks: AudioTrack[] = [];
+  if (voiceover) {
+    tracks.push({ source: voiceover, gain: settings.voiceoverVolume / 100 });
+  }
+  if (music) {
+    tracks.push(getMusicAudioTrack(settings, music, ducking));
+  }
+
+  for (const clip of buildClips(media)) {
+    if (clip.media.type !== "video") continue;
+    const audio = await loadClipAudio(clip.media);
+    if (audio) {
+      tracks.push({ source: audio, offset: clip.start, duration: clip.duration, gain: settings.clipVolume / 100 });
+    }
+  }
+
+  sfx.forEach(track => {
+    tracks.push({ ...track, gain: ((track.gain ?? 1) * settings.sfxVolume) / 100 });
+  });
+
+  return tracks.filter(track => (track.gain ?? 1) > 0);
+};
+
+// Mix the tracks offline, then measure the result and bring it to the loudness target
+export const mixdown = async (
+  tracks: AudioTrack[],
+  duration: number,
+  loudnessTarget: number | null
+): Promise<Mixdown> => {
+  const buffer = await mixAudioTracks(tracks, duration);
+  const loudness = measureLoudness(buffer);
+  const gain = loudnessTarget === null ? 0 : getNormalizationGain(loudness, measurePeak(buffer), loudnessTarget);
+
+  if (gain !== 0) {
+    const factor = 10 ** (gain / 20);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) data[i] *= factor;
+    }
+  }
+
+  return { buffer, loudness, gain };
+};
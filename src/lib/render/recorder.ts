@@ -0,0 +1,107 @@
+import fixWebmDuration from "fix-webm-duration";
+import { getFrameCount } from "@/lib/render/composition";
+import { renderFrame } from "@/lib/render/compositor";
+import { EncodeOptions, getAudioBitrate, getVideoBitrate } from "@/lib/render/encoding";
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Resolve once the audio clock has advanced to the given time
+const waitForClock = async (audioContext: AudioContext, time: number) => {
+  while (audioContext.currentTime < time) {
+    const remaining = time - audioContext.currentTime;
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, remaining * 1000 - 2)));
+  }
+};
+
+// Record the composition with MediaRecorder one frame at a time.
+// MediaRecorder timestamps everything by wall clock, so the recorder and the audio graph stay
+// paused while a frame is composited and only run for one frame interval once it has been pushed.
+// However long compositing takes, every frame lasts exactly 1/fps and the audio stays aligned.
+export const recordSteppedFrames = async ({
+  composition,
+  provider,
+  audio,
+  quality,
+  onProgress,
+  signal,
+  mimeType,
+}: EncodeOptions & { mimeType: string }): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = composition.width;
+  canvas.height = composition.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser");
+  }
+
+  const audioContext = new AudioContext({ sampleRate: audio?.sampleRate });
+  const audioDestination = audioContext.createMediaStreamDestination();
+
+  // A frame rate of 0 means frames are only captured when requested
+  const stream = canvas.captureStream(0);
+  const videoTrack = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: getVideoBitrate(composition.width, composition.height, composition.fps, quality),
+    audioBitsPerSecond: getAudioBitrate(quality),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const totalFrames = getFrameCount(composition);
+
+  try {
+    await audioContext.suspend();
+    if (audio) {
+      const buffer = audioContext.createBuffer(audio.numberOfChannels, audio.length, audio.sampleRate);
+      for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+        buffer.copyToChannel(audio.getChannelData(channel), channel);
+      }
+      const source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioDestination);
+      source.start(0);
+    }
+
+    recorder.start(1000);
+    recorder.pause();
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      signal?.throwIfAborted();
+      await renderFrame(ctx, composition, frame / composition.fps, provider);
+
+      // Let exactly one frame interval elapse on both the recorder and the audio clock
+      recorder.resume();
+      await audioContext.resume();
+      videoTrack.requestFrame();
+      await waitForClock(audioContext, (frame + 1) / composition.fps);
+      await audioContext.suspend();
+      recorder.pause();
+
+      onProgress((frame + 1) / totalFrames);
+      await nextTick();
+    }
+  } finally {
+    if (recorder.state !== "inactive") {
+      recorder.stop();
+      await stopped;
+    }
+    stream.getTracks().forEach(track => track.stop());
+    await audioContext.close();
+  }
+
+  const blob = new Blob(chunks, { type: mimeType });
+
+  // MediaRecorder writes WebM without a duration, which leaves players unable to seek
+  if (mimeType.startsWith("video/webm")) {
+    return fixWebmDuration(blob, (totalFrames / composition.fps) * 1000, { logger: false });
+  }
+  return blob;
+};
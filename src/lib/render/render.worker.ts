@@ -0,0 +1,106 @@
+import { createAudioSamples } from "@/lib/render/audio";
+import { ActiveClip } from "@/lib/render/composition";
+import { FrameSourceProvider } from "@/lib/render/compositor";
+import { encodeWithWebCodecs } from "@/lib/render/webcodecs";
+import { RenderWorkerRequest, RenderWorkerResponse } from "@/lib/render/workerProtocol";
+
+let controller: AbortController | null = null;
+let nextRequestId = 0;
+const pendingFrames = new Map<number, (bitmap: ImageBitmap | null) => void>();
+
+const post = (message: RenderWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const requestVideoFrame = (mediaId: string, time: number): Promise<ImageBitmap | null> => {
+  return new Promise(resolve => {
+    const requestId = nextRequestId++;
+    pendingFrames.set(requestId, resolve);
+    post({ type: "frame-request", requestId, mediaId, time });
+  });
+};
+
+// Serve still images from the bitmaps received at start and fetch video frames from the main thread
+const createWorkerFrameProvider = (images: Map<string, ImageBitmap>) => {
+  // Only the latest frame of each video is kept; older ones are closed as soon as they're replaced
+  const videoFrames = new Map<string, { time: number; bitmap: ImageBitmap | null }>();
+
+  const provider: FrameSourceProvider & { dispose: () => void } = {
+    getFrame: async ({ clip, localTime }: ActiveClip) => {
+      if (clip.media.type === "image") {
+        return images.get(clip.media.id) || null;
+      }
+
+      const cached = videoFrames.get(clip.media.id);
+      if (cached && cached.time === localTime) return cached.bitmap;
+
+      const bitmap = await requestVideoFrame(clip.media.id, localTime);
+      cached?.bitmap?.close();
+      videoFrames.set(clip.media.id, { time: localTime, bitmap });
+      return bitmap;
+    },
+    dispose: () => {
+      images.forEach(bitmap => bitmap.close());
+      videoFrames.forEach(frame => frame.bitmap?.close());
+      images.clear();
+      videoFrames.clear();
+    },
+  };
+  return provider;
+};
+
+const startRender = async (request: Extract<RenderWorkerRequest, { type: "start" }>) => {
+  controller = new AbortController();
+  const { signal } = controller;
+  const provider = createWorkerFrameProvider(new Map(request.images.map(image => [image.mediaId, image.bitmap])));
+
+  try {
+    const blob = await encodeWithWebCodecs(request.format, {
+      composition: request.composition,
+      provider,
+      audio: request.audio ? createAudioSamples(request.audio.sampleRate, request.audio.channels) : null,
+      quality: request.quality,
+      onProgress: fraction => post({ type: "progress", fraction }),
+      signal,
+    });
+
+    const buffer = await blob.arrayBuffer();
+    post({ type: "done", buffer, mimeType: blob.type }, [buffer]);
+  } catch (error) {
+    if (signal.aborted) {
+      post({ type: "cancelled" });
+    } else {
+      post({ type: "error", message: error instanceof Error ? error.message : "Failed to render video" });
+    }
+  } finally {
+    provider.dispose();
+    controller = null;
+  }
+};
+
+self.onmessage = (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "start":
+      startRender(message);
+      break;
+    case "frame": {
+      const resolve = pendingFrames.get(message.requestId);
+      pendingFrames.delete(message.requestId);
+      if (resolve) {
+        resolve(message.bitmap);
+      } else {
+        // The render was cancelled while this frame was in flight
+        message.bitmap?.close();
+      }
+      break;
+    }
+    case "cancel":
+      controller?.abort();
+      // Unblock a render waiting on a video frame so it can notice the cancellation
+      pendingFrames.forEach(resolve => resolve(null));
+      pendingFrames.clear();
+      break;
+  }
+};
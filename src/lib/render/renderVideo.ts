@@ -0,0 +1,99 @@
+import { ExportConfig, ExportResult, MediaItem } from "@/lib/types";
+import { AudioTrack } from "@/lib/render/audio";
+import { Composition, getFrameCount } from "@/lib/render/composition";
+import { EncodeOptions, getExportFileName, getRecorderMimeType } from "@/lib/render/encoding";
+import { encodeMp4WithFfmpeg } from "@/lib/render/ffmpeg";
+import { createMediaFrameProvider } from "@/lib/render/mediaSources";
+import { mixdown } from "@/lib/render/mixdown";
+import { recordSteppedFrames } from "@/lib/render/recorder";
+import { canEncodeWithWebCodecs } from "@/lib/render/webcodecs";
+import { isWorkerRenderingSupported, renderInWorker } from "@/lib/render/workerClient";
+
+export interface RenderProgress {
+  progress: number; // 0-100
+  estimatedTime?: number; // remaining, in seconds
+}
+
+export interface RenderVideoOptions {
+  composition: Composition;
+  media: MediaItem[];
+  audioTracks: AudioTrack[];
+  loudnessTarget?: number | null; // LUFS the mix is normalized to
+  exportConfig: ExportConfig;
+  onProgress?: (progress: RenderProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Turn encoder progress into a percentage and a remaining-time estimate from the observed speed
+const createProgressReporter = (onProgress?: (progress: RenderProgress) => void) => {
+  const startedAt = performance.now();
+
+  return (fraction: number) => {
+    if (!onProgress) return;
+
+    const elapsed = (performance.now() - startedAt) / 1000;
+    onProgress({
+      // Hold back 100% until the file has actually been finalized
+      progress: Math.min(99, Math.floor(fraction * 100)),
+      estimatedTime: fraction > 0 ? Math.ceil((elapsed / fraction) * (1 - fraction)) : undefined,
+    });
+  };
+};
+
+// Main-thread encoders for browsers that can't run WebCodecs in a worker
+const encodeOnMainThread = async (
+  format: ExportConfig["format"],
+  media: MediaItem[],
+  options: Omit<EncodeOptions, "provider">
+): Promise<Blob> => {
+  const mimeType = format === "webm" ? getRecorderMimeType("webm") : null;
+  if (format === "webm" && !mimeType) {
+    throw new Error("WebM export is not supported in this browser");
+  }
+
+  const provider = await createMediaFrameProvider(media);
+  try {
+    // MP4 falls back to the much slower software encoder
+    return format === "mp4"
+      ? await encodeMp4WithFfmpeg({ ...options, provider })
+      : await recordSteppedFrames({ ...options, provider, mimeType });
+  } finally {
+    provider.dispose();
+  }
+};
+
+// Composite, mix and encode the project into a downloadable video file
+export const renderVideo = async ({
+  composition,
+  media,
+  audioTracks,
+  loudnessTarget = null,
+  exportConfig,
+  onProgress,
+  signal,
+}: RenderVideoOptions): Promise<ExportResult> => {
+  const totalFrames = getFrameCount(composition);
+  if (totalFrames === 0) {
+    throw new Error("Nothing to render");
+  }
+
+  onProgress?.({ progress: 0 });
+
+  const audio = audioTracks.length > 0
+    ? (await mixdown(audioTracks, composition.duration, loudnessTarget)).buffer
+    : null;
+  signal?.throwIfAborted();
+
+  const { format, quality } = exportConfig;
+  const reportProgress = createProgressReporter(onProgress);
+
+  const blob = isWorkerRenderingSupported() && (await canEncodeWithWebCodecs(format, { composition, quality }))
+    ? await renderInWorker({ format, quality, composition, media, audio, onProgress: reportProgress, signal })
+    : await encodeOnMainThread(format, media, { composition, audio, quality, onProgress: reportProgress, signal });
+
+  return {
+    blob,
+    mimeType: blob.type,
+    fileName: getExportFileName(format),
+  };
+};
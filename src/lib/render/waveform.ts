@@ -0,0 +1,49 @@
+import { AudioSamples } from "@/lib/render/audio";
+
+// Peaks per second of a waveform. Enough detail for a timeline a few thousand pixels wide
+const PEAK_RATE = 100;
+
+export interface Waveform {
+  peaks: Float32Array; // loudest absolute sample of each window, 0 to 1, across all channels
+  rate: number; // peaks per second
+  duration: number; // in seconds
+}
+
+// Waveforms by the PCM they were computed from, so redrawing the timeline never scans the audio again
+const waveformCache = new WeakMap<AudioSamples, Waveform>();
+
+export const computeWaveform = (samples: AudioSamples): Waveform => {
+  const windowSize = Math.max(1, Math.round(samples.sampleRate / PEAK_RATE));
+  const peaks = new Float32Array(Math.ceil(samples.length / windowSize));
+
+  for (let channel = 0; channel < samples.numberOfChannels; channel++) {
+    const data = samples.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const index = Math.floor(i / windowSize);
+      const value = Math.abs(data[i]);
+      if (value > peaks[index]) peaks[index] = value;
+    }
+  }
+
+  return { peaks, rate: samples.sampleRate / windowSize, duration: samples.length / samples.sampleRate };
+};
+
+export const getWaveform = (samples: AudioSamples): Waveform => {
+  let waveform = waveformCache.get(samples);
+  if (!waveform) {
+    waveform = computeWaveform(samples);
+    waveformCache.set(samples, waveform);
+  }
+  return waveform;
+};
+
+// Loudest peak between two points of the audio, in seconds
+export const getPeakBetween = ({ peaks, rate }: Waveform, start: number, end: number): number => {
+  const first = Math.max(0, Math.floor(start * rate));
+  const last = Math.min(peaks.length, Math.max(first + 1, Math.ceil(end * rate)));
+  let peak = 0;
+  for (let i = first; i < last; i++) {
+    if (peaks[i] > peak) peak = peaks[i];
+  }
+  return peak;
+};
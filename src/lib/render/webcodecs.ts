@@ -0,0 +1,249 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from "mp4-muxer";
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from "webm-muxer";
+import { ExportFormat } from "@/lib/types";
+import { AudioSamples } from "@/lib/render/audio";
+import { getFrameCount } from "@/lib/render/composition";
+import { renderFrame } from "@/lib/render/compositor";
+import {
+  EncodeOptions,
+  getAudioBitrate,
+  getKeyframeInterval,
+  getVideoBitrate,
+} from "@/lib/render/encoding";
+
+// Codec strings to try per container, best first. For H.264, level 4.0 covers 1080p30 and 5.1 is needed for 4K
+const VIDEO_CODECS: Record<ExportFormat, { hd: string[]; uhd: string[] }> = {
+  mp4: {
+    hd: ["avc1.640028", "avc1.4d0028", "avc1.42e028"],
+    uhd: ["avc1.640033", "avc1.4d0033"],
+  },
+  webm: {
+    hd: ["vp09.00.40.08", "vp8"],
+    uhd: ["vp09.00.51.08", "vp8"],
+  },
+};
+
+// AAC is preferred in MP4 for compatibility, Opus is the fallback where the browser lacks an AAC encoder
+const AUDIO_CODECS: Record<ExportFormat, string[]> = {
+  mp4: ["mp4a.40.2", "opus"],
+  webm: ["opus"],
+};
+
+// Audio is fed to the encoder in blocks of this many sample frames
+const AUDIO_BLOCK_SIZE = 4096;
+
+// How many frames may wait in the encoder before compositing pauses
+const MAX_ENCODE_QUEUE = 8;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The parts of mp4-muxer and webm-muxer this module relies on
+interface ContainerMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => void;
+  target: { buffer: ArrayBuffer };
+}
+
+const isWebCodecsSupported = (): boolean => {
+  return (
+    typeof VideoEncoder !== "undefined" &&
+    typeof AudioEncoder !== "undefined" &&
+    typeof VideoFrame !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined"
+  );
+};
+
+// First video codec the browser can encode at this size, if any
+const findVideoConfig = async (
+  format: ExportFormat,
+  width: number,
+  height: number,
+  bitrate: number,
+  framerate: number
+): Promise<VideoEncoderConfig | null> => {
+  const candidates = width * height > 1920 * 1080 ? VIDEO_CODECS[format].uhd : VIDEO_CODECS[format].hd;
+
+  for (const codec of candidates) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate,
+      framerate,
+      bitrateMode: "variable",
+      latencyMode: "quality",
+      ...(codec.startsWith("avc1") ? { avc: { format: "avc" as const } } : {}),
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  return null;
+};
+
+const findAudioConfig = async (
+  format: ExportFormat,
+  audio: AudioSamples,
+  bitrate: number
+): Promise<AudioEncoderConfig | null> => {
+  for (const codec of AUDIO_CODECS[format]) {
+    const config = { codec, sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels, bitrate };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  return null;
+};
+
+const createMuxer = (
+  format: ExportFormat,
+  width: number,
+  height: number,
+  fps: number,
+  videoCodec: string,
+  audio: { codec: string; numberOfChannels: number; sampleRate: number } | null
+): ContainerMuxer => {
+  if (format === "mp4") {
+    return new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: "avc", width, height, frameRate: fps },
+      audio: audio
+        ? { ...audio, codec: audio.codec === "opus" ? "opus" : "aac" }
+        : undefined,
+      fastStart: "in-memory",
+    });
+  }
+
+  return new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: videoCodec.startsWith("vp09") ? "V_VP9" : "V_VP8", width, height, frameRate: fps },
+    audio: audio ? { ...audio, codec: "A_OPUS" } : undefined,
+  });
+};
+
+// Whether this browser exposes a suitable video encoder for the container through WebCodecs
+export const canEncodeWithWebCodecs = async (
+  format: ExportFormat,
+  { composition, quality }: Pick<EncodeOptions, "composition" | "quality">
+): Promise<boolean> => {
+  if (!isWebCodecsSupported()) return false;
+
+  const { width, height, fps } = composition;
+  return !!(await findVideoConfig(format, width, height, getVideoBitrate(width, height, fps, quality), fps));
+};
+
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await sleep(1);
+  }
+};
+
+const encodeAudio = (encoder: AudioEncoder, audio: AudioSamples) => {
+  const channels = audio.numberOfChannels;
+  const channelData = Array.from({ length: channels }, (_, channel) => audio.getChannelData(channel));
+
+  for (let offset = 0; offset < audio.length; offset += AUDIO_BLOCK_SIZE) {
+    const frames = Math.min(AUDIO_BLOCK_SIZE, audio.length - offset);
+    const planar = new Float32Array(frames * channels);
+    channelData.forEach((data, channel) => {
+      planar.set(data.subarray(offset, offset + frames), channel * frames);
+    });
+
+    const audioData = new AudioData({
+      format: "f32-planar",
+      sampleRate: audio.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / audio.sampleRate) * 1_000_000),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+};
+
+// Encode the composition with WebCodecs (H.264/AAC for MP4, VP9/Opus for WebM) and mux it into a file
+export const encodeWithWebCodecs = async (
+  format: ExportFormat,
+  { composition, provider, audio, quality, onProgress, signal }: EncodeOptions
+): Promise<Blob> => {
+  const { width, height, fps } = composition;
+
+  const videoConfig = await findVideoConfig(format, width, height, getVideoBitrate(width, height, fps, quality), fps);
+  if (!videoConfig) {
+    throw new Error(`This browser cannot encode ${format.toUpperCase()} video at ${width}x${height}`);
+  }
+  const audioConfig = audio ? await findAudioConfig(format, audio, getAudioBitrate(quality)) : null;
+  if (audio && !audioConfig) {
+    throw new Error(`This browser cannot encode audio for ${format.toUpperCase()}`);
+  }
+
+  const muxer = createMuxer(format, width, height, fps, videoConfig.codec, audioConfig && {
+    codec: audioConfig.codec,
+    numberOfChannels: audioConfig.numberOfChannels,
+    sampleRate: audioConfig.sampleRate,
+  });
+
+  let encoderError: Error | null = null;
+  const onError = (error: DOMException) => {
+    encoderError = error;
+  };
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: onError,
+  });
+  videoEncoder.configure(videoConfig);
+
+  const audioEncoder = audioConfig
+    ? new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: onError,
+      })
+    : null;
+  audioEncoder?.configure(audioConfig);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser");
+  }
+
+  const totalFrames = getFrameCount(composition);
+  const keyframeInterval = getKeyframeInterval(fps, quality);
+  const frameDuration = 1_000_000 / fps;
+
+  try {
+    if (audioEncoder && audio) {
+      encodeAudio(audioEncoder, audio);
+    }
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      signal?.throwIfAborted();
+      if (encoderError) throw encoderError;
+
+      await renderFrame(ctx, composition, frame / fps, provider);
+
+      // Timestamps come from the frame index, never from the wall clock
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % keyframeInterval === 0 });
+      videoFrame.close();
+
+      await waitForQueue(videoEncoder);
+      onProgress((frame + 1) / totalFrames);
+    }
+
+    await videoEncoder.flush();
+    await audioEncoder?.flush();
+    if (encoderError) throw encoderError;
+
+    muxer.finalize();
+  } finally {
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== "closed") audioEncoder.close();
+  }
+
+  return new Blob([muxer.target.buffer], { type: `video/${format}` });
+};
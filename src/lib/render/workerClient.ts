@@ -0,0 +1,131 @@
+import { ExportFormat, ExportQuality, MediaItem } from "@/lib/types";
+import { Composition } from "@/lib/render/composition";
+import { createMediaFrameProvider } from "@/lib/render/mediaSources";
+import { RenderWorkerRequest, RenderWorkerResponse } from "@/lib/render/workerProtocol";
+
+// How long a cancelled worker gets to wind down its encoders before it is terminated outright
+const CANCEL_GRACE_PERIOD = 2000;
+
+interface WorkerRenderOptions {
+  format: ExportFormat;
+  quality: ExportQuality;
+  composition: Composition;
+  media: MediaItem[];
+  audio: AudioBuffer | null;
+  onProgress: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export const isWorkerRenderingSupported = (): boolean => {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+};
+
+// Composite and encode in a dedicated worker so the editor stays responsive, even for 4K exports
+export const renderInWorker = async ({
+  format,
+  quality,
+  composition,
+  media,
+  audio,
+  onProgress,
+  signal,
+}: WorkerRenderOptions): Promise<Blob> => {
+  signal?.throwIfAborted();
+
+  const images = await Promise.all(
+    media
+      .filter(item => item.type === "image")
+      .map(async item => ({ mediaId: item.id, bitmap: await createImageBitmap(item.file) }))
+  );
+  const releaseImages = () => images.forEach(image => image.bitmap.close());
+  if (signal?.aborted) {
+    releaseImages();
+    signal.throwIfAborted();
+  }
+
+  const videoProvider = await createMediaFrameProvider(media.filter(item => item.type === "video"));
+  // The abort listener is only added once the worker starts, so a cancel while the sources loaded is caught here
+  if (signal?.aborted) {
+    releaseImages();
+    videoProvider.dispose();
+    signal.throwIfAborted();
+  }
+
+  // Copies, so the buffers can be transferred without detaching the caller's AudioBuffer
+  const audioChannels = audio
+    ? Array.from({ length: audio.numberOfChannels }, (_, channel) => audio.getChannelData(channel).slice())
+    : [];
+
+  const worker = new Worker(new URL("./render.worker.ts", import.meta.url), { type: "module" });
+  const post = (message: RenderWorkerRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+  };
+
+  let cancelTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      const cancelled = () => reject(new DOMException("Export cancelled", "AbortError"));
+
+      const onAbort = () => {
+        post({ type: "cancel" });
+        cancelTimeout = setTimeout(cancelled, CANCEL_GRACE_PERIOD);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const sendFrame = async (requestId: number, mediaId: string, time: number) => {
+        let bitmap: ImageBitmap | null = null;
+        try {
+          const element = await videoProvider.getElement(mediaId, time);
+          bitmap = element ? await createImageBitmap(element) : null;
+        } catch (error) {
+          console.error("Failed to capture video frame:", error);
+        }
+        post({ type: "frame", requestId, bitmap }, bitmap ? [bitmap] : []);
+      };
+
+      worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case "frame-request":
+            sendFrame(message.requestId, message.mediaId, message.time);
+            break;
+          case "progress":
+            onProgress(message.fraction);
+            break;
+          case "done":
+            resolve(new Blob([message.buffer], { type: message.mimeType }));
+            break;
+          case "cancelled":
+            cancelled();
+            break;
+          case "error":
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        event.preventDefault();
+        reject(new Error(event.message || "The render worker crashed"));
+      };
+
+      post(
+        {
+          type: "start",
+          format,
+          quality,
+          composition,
+          images,
+          audio: audio ? { sampleRate: audio.sampleRate, channels: audioChannels } : null,
+        },
+        [...images.map(image => image.bitmap), ...audioChannels.map(channel => channel.buffer)]
+      );
+    });
+  } finally {
+    clearTimeout(cancelTimeout);
+    worker.terminate();
+    videoProvider.dispose();
+  }
+};
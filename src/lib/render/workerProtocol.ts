@@ -0,0 +1,25 @@
+import { ExportFormat, ExportQuality } from "@/lib/types";
+import { Composition } from "@/lib/render/composition";
+
+// Messages from the editor to the render worker
+export type RenderWorkerRequest =
+  | {
+      type: "start";
+      format: ExportFormat;
+      quality: ExportQuality;
+      composition: Composition;
+      // Still images are decoded once on the main thread and handed over up front
+      images: { mediaId: string; bitmap: ImageBitmap }[];
+      audio: { sampleRate: number; channels: Float32Array[] } | null;
+    }
+  | { type: "frame"; requestId: number; bitmap: ImageBitmap | null }
+  | { type: "cancel" };
+
+// Messages from the render worker back to the editor
+export type RenderWorkerResponse =
+  // Video frames can only be decoded by a <video> element, so the worker asks for them one at a time
+  | { type: "frame-request"; requestId: number; mediaId: string; time: number }
+  | { type: "progress"; fraction: number }
+  | { type: "done"; buffer: ArrayBuffer; mimeType: string }
+  | { type: "cancelled" }
+  | { type: "error"; message: string };
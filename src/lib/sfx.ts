@@ -0,0 +1,239 @@
+import { AudioSettings, MediaItem, SoundEffect, TransitionEffect } from "@/lib/types";
+import { AudioTrack, decodeAudio, MIX_CHANNELS, MIX_SAMPLE_RATE } from "@/lib/render/audio";
+import { buildClips, getTransitionStarts } from "@/lib/render/composition";
+import { fetchUploadedEffectAudio } from "@/lib/musicStore";
+
+// Sound effects: a bundled set synthesized in the browser, like the bundled music, plus whatever the user
+// uploads. They are placed on the timeline as cues, and optionally at every transition
+
+// Uploads longer than this are music, not effects
+export const MAX_EFFECT_DURATION = 10;
+
+// A placed effect, already decoded, as a track of the mix
+export type SoundEffectTrack = AudioTrack & { source: AudioBuffer };
+
+interface Synth {
+  name: string;
+  length: number; // in seconds
+  render: (context: OfflineAudioContext) => void;
+}
+
+// Two seconds of white noise, the raw material of whooshes and risers
+const createNoise = (context: OfflineAudioContext): AudioBufferSourceNode => {
+  const buffer = context.createBuffer(1, context.sampleRate * 2, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  return source;
+};
+
+const SYNTHS: Record<string, Synth> = {
+  "bundled-whoosh": {
+    name: "Whoosh",
+    length: 0.8,
+    render: context => {
+      const noise = createNoise(context);
+      const filter = context.createBiquadFilter();
+      filter.type = "bandpass";
+      filter.Q.value = 1.5;
+      filter.frequency.setValueAtTime(300, 0);
+      filter.frequency.exponentialRampToValueAtTime(3000, 0.4);
+      filter.frequency.exponentialRampToValueAtTime(500, 0.8);
+
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0, 0);
+      gain.gain.linearRampToValueAtTime(0.8, 0.4);
+      gain.gain.linearRampToValueAtTime(0, 0.8);
+
+      // Passes from left to right
+      const panner = context.createStereoPanner();
+      panner.pan.setValueAtTime(-0.8, 0);
+      panner.pan.linearRampToValueAtTime(0.8, 0.8);
+
+      noise.connect(filter).connect(gain).connect(panner).connect(context.destination);
+      noise.start(0);
+      noise.stop(0.8);
+    },
+  },
+  "bundled-hit": {
+    name: "Hit",
+    length: 0.6,
+    render: context => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.setValueAtTime(150, 0);
+      oscillator.frequency.exponentialRampToValueAtTime(40, 0.5);
+      const body = context.createGain();
+      body.gain.setValueAtTime(0.9, 0);
+      body.gain.exponentialRampToValueAtTime(0.0001, 0.6);
+      oscillator.connect(body).connect(context.destination);
+      oscillator.start(0);
+      oscillator.stop(0.6);
+
+      // A short burst of noise for the attack
+      const noise = createNoise(context);
+      const filter = context.createBiquadFilter();
+      filter.type = "lowpass";
+      filter.frequency.value = 2500;
+      const click = context.createGain();
+      click.gain.setValueAtTime(0.5, 0);
+      click.gain.exponentialRampToValueAtTime(0.0001, 0.06);
+      noise.connect(filter).connect(click).connect(context.destination);
+      noise.start(0);
+      noise.stop(0.06);
+    },
+  },
+  "bundled-pop": {
+    name: "Pop",
+    length: 0.15,
+    render: context => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.setValueAtTime(400, 0);
+      oscillator.frequency.exponentialRampToValueAtTime(900, 0.05);
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0.7, 0);
+      gain.gain.exponentialRampToValueAtTime(0.0001, 0.15);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(0);
+      oscillator.stop(0.15);
+    },
+  },
+  "bundled-riser": {
+    name: "Riser",
+    length: 1.5,
+    render: context => {
+      const oscillator = context.createOscillator();
+      oscillator.type = "sawtooth";
+      oscillator.frequency.setValueAtTime(200, 0);
+      oscillator.frequency.exponentialRampToValueAtTime(1200, 1.5);
+      const noise = createNoise(context);
+      const filter = context.createBiquadFilter();
+      filter.type = "highpass";
+      filter.frequency.setValueAtTime(500, 0);
+      filter.frequency.exponentialRampToValueAtTime(5000, 1.5);
+
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0.0001, 0);
+      gain.gain.exponentialRampToValueAtTime(0.3, 1.45);
+      gain.gain.linearRampToValueAtTime(0, 1.5);
+
+      oscillator.connect(gain);
+      noise.connect(filter).connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(0);
+      oscillator.stop(1.5);
+      noise.start(0);
+      noise.stop(1.5);
+    },
+  },
+  "bundled-ding": {
+    name: "Ding",
+    length: 1.2,
+    render: context => {
+      [{ frequency: 1318.5, level: 0.4 }, { frequency: 2637, level: 0.12 }].forEach(({ frequency, level }) => {
+        const oscillator = context.createOscillator();
+        oscillator.frequency.value = frequency;
+        const gain = context.createGain();
+        gain.gain.setValueAtTime(0, 0);
+        gain.gain.linearRampToValueAtTime(level, 0.005);
+        gain.gain.exponentialRampToValueAtTime(0.0001, 1.2);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(0);
+        oscillator.stop(1.2);
+      });
+    },
+  },
+};
+
+export const BUNDLED_EFFECTS: SoundEffect[] = Object.entries(SYNTHS).map(([id, { name, length }]) => ({
+  id,
+  name,
+  duration: length,
+  bundled: true,
+}));
+
+const renderSynth = ({ length, render }: Synth, sampleRate = MIX_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(MIX_CHANNELS, Math.ceil(length * sampleRate), sampleRate);
+  render(context);
+  return context.startRendering();
+};
+
+// Decoded or rendered effects by id, since the same effect is usually placed many times
+const effectCache = new Map<string, Promise<AudioBuffer>>();
+
+export const loadSoundEffect = (id: string): Promise<AudioBuffer> => {
+  const cached = effectCache.get(id);
+  if (cached) return cached;
+
+  const effect = SYNTHS[id]
+    ? renderSynth(SYNTHS[id])
+    : fetchUploadedEffectAudio(id).then(blob => {
+        if (!blob) throw new Error("A sound effect on the timeline is no longer in your library");
+        return decodeAudio(blob);
+      });
+  effectCache.set(id, effect);
+  effect.catch(() => effectCache.delete(id));
+  return effect;
+};
+
+export const forgetSoundEffect = (id: string) => {
+  effectCache.delete(id);
+};
+
+// Where every effect plays: the placed cues, then the transition effect at each transition
+export const placeSoundEffects = (
+  settings: Pick<AudioSettings, "soundEffects" | "transitionEffectId">,
+  media: MediaItem[],
+  transition: TransitionEffect
+): { effectId: string; time: number }[] => {
+  const transitionCues = settings.transitionEffectId
+    ? getTransitionStarts(buildClips(media), transition).map(time => ({ effectId: settings.transitionEffectId, time }))
+    : [];
+  return [...settings.soundEffects, ...transitionCues];
+};
+
+// The placed effects as tracks of the mix. Effects that can no longer be loaded are left out rather than failing
+// the whole mix
+export const loadSoundEffectTracks = async (
+  placed: { effectId: string; time: number }[]
+): Promise<SoundEffectTrack[]> => {
+  const tracks = await Promise.all(
+    placed.map(({ effectId, time }) =>
+      loadSoundEffect(effectId).then(
+        (buffer): SoundEffectTrack => ({ source: buffer, offset: time }),
+        error => {
+          console.error(`Error loading sound effect ${effectId}:`, error);
+          return null;
+        }
+      )
+    )
+  );
+  return tracks.filter(Boolean);
+};
+
+// Play the effects as they will sound in the export, starting part way into the video. Returns a function that
+// stops playback
+export const playSoundEffects = (
+  tracks: SoundEffectTrack[],
+  settings: AudioSettings,
+  { from = 0 }: { from?: number } = {}
+): (() => void) => {
+  const context = new AudioContext();
+  const gain = context.createGain();
+  gain.gain.value = settings.sfxVolume / 100;
+  gain.connect(context.destination);
+
+  const now = context.currentTime;
+  tracks.forEach(({ source: buffer, offset = 0 }) => {
+    if (offset + buffer.duration <= from) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    source.start(now + Math.max(0, offset - from), Math.max(0, from - offset));
+  });
+
+  return () => {
+    context.close();
+  };
+};
@@ -0,0 +1,125 @@
+import { CaptionSegment, CaptionSettings, CharacterAlignment, SpeakerVoice, VoiceSettings } from "@/lib/types";
+import { generateAlignedSubtitleTimings, generateSubtitleTimings, splitTextIntoSegments } from "@/lib/captions";
+import { stripMarkup } from "@/lib/markup";
+
+// Dialogue scripts start lines with a short speaker label, like "A: ..." or "Host: ..."
+const SPEAKER_LABEL = /^[ \t]*([A-Z][\w-]{0,15}):[ \t]+/;
+
+// Colours offered to speakers in order, the first matching the default caption colour
+export const SPEAKER_COLORS = ["#FFFFFF", "#FFD54F", "#4FC3F7", "#AED581", "#F48FB1", "#FFB74D"];
+
+export interface SpeakerBlock {
+  speaker: string | null; // null for narration before the first label
+  text: string;
+}
+
+const getLabel = (line: string): string | null => SPEAKER_LABEL.exec(line)?.[1] ?? null;
+
+// Labels in order of first appearance. A single label is more likely a heading like "Note:" than a dialogue,
+// so a script only counts as a dialogue once two different speakers appear
+export const getSpeakers = (text: string): string[] => {
+  const speakers = [...new Set(text.split("\n").map(getLabel).filter((label): label is string => !!label))];
+  return speakers.length >= 2 ? speakers : [];
+};
+
+// Split a dialogue into consecutive turns, with the labels removed. Unlabelled lines continue the current turn
+export const parseSpeakerBlocks = (text: string): SpeakerBlock[] => {
+  const speakers = new Set(getSpeakers(text));
+  if (speakers.size === 0) return [{ speaker: null, text }];
+
+  const blocks: SpeakerBlock[] = [];
+  text.split("\n").forEach(line => {
+    const label = getLabel(line);
+    if (label && speakers.has(label)) {
+      blocks.push({ speaker: label, text: line.replace(SPEAKER_LABEL, "") });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].text += "\n" + line;
+    } else {
+      blocks.push({ speaker: null, text: line });
+    }
+  });
+
+  return blocks.filter(block => block.text.trim());
+};
+
+// Spread caption segments evenly over the duration, tagging each with the speaker of its turn
+export const generateScriptTimings = (text: string, duration: number): CaptionSegment[] => {
+  const blocks = parseSpeakerBlocks(text).map(block => ({ ...block, text: stripMarkup(block.text) }));
+  const counts = blocks.map(block => splitTextIntoSegments(block.text).length);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return [];
+
+  // Each turn gets a share of the duration in proportion to its segments, so the pacing matches an even split
+  const segments: CaptionSegment[] = [];
+  let start = 0;
+  blocks.forEach((block, index) => {
+    const blockDuration = duration * counts[index] / total;
+    generateSubtitleTimings(block.text, blockDuration).forEach(segment => {
+      segments.push({
+        ...segment,
+        start: segment.start + start,
+        end: segment.end + start,
+        ...(block.speaker ? { speaker: block.speaker } : {}),
+      });
+    });
+    start += blockDuration;
+  });
+  return segments;
+};
+
+// The words of a script as read aloud: each turn without its label or markup, one turn per line
+export const getSpokenScript = (text: string): string => {
+  return parseSpeakerBlocks(text).map(block => stripMarkup(block.text).trim()).join("\n");
+};
+
+// Caption segments from an alignment of getSpokenScript, tagging each with the speaker of its turn. Turns are
+// found by character position, so an alignment that doesn't cover the spoken script character for character
+// is timed as a whole without speakers
+export const generateAlignedScriptTimings = (alignment: CharacterAlignment, text: string): CaptionSegment[] => {
+  const blocks = parseSpeakerBlocks(text).map(block => ({ ...block, text: stripMarkup(block.text).trim() }));
+  if (alignment.characters.length !== getSpokenScript(text).length) {
+    return generateAlignedSubtitleTimings(alignment);
+  }
+
+  const segments: CaptionSegment[] = [];
+  let offset = 0;
+  blocks.forEach(block => {
+    const end = offset + block.text.length;
+    const turn: CharacterAlignment = {
+      characters: alignment.characters.slice(offset, end),
+      characterStartTimes: alignment.characterStartTimes.slice(offset, end),
+      characterEndTimes: alignment.characterEndTimes.slice(offset, end),
+    };
+    generateAlignedSubtitleTimings(turn).forEach(segment => {
+      segments.push(block.speaker ? { ...segment, speaker: block.speaker } : segment);
+    });
+    offset = end + 1; // the line break between turns
+  });
+  return segments;
+};
+
+// Voice settings for a line: the speaker's own voice when one is assigned, the main voice otherwise
+export const getSpeakerSettings = (settings: VoiceSettings, speaker: string | null): VoiceSettings => {
+  const voice: SpeakerVoice | undefined = speaker ? settings.speakers?.[speaker] : undefined;
+  return voice ? { ...settings, ...voice } : settings;
+};
+
+// Caption colour for a segment, when colour coding by speaker is turned on
+export const getCaptionColor = (captions: CaptionSettings, speaker?: string): string => {
+  if (!captions.colorBySpeaker || !speaker) return captions.color;
+  return captions.speakerColors?.[speaker] || captions.color;
+};
+
+// Give every speaker without a caption colour the first palette colour not already taken
+export const assignSpeakerColors = (captions: CaptionSettings): CaptionSettings => {
+  const speakers = getSpeakers(captions.text);
+  const colors = { ...captions.speakerColors };
+  const missing = speakers.filter(speaker => !colors[speaker]);
+  if (missing.length === 0) return captions;
+
+  missing.forEach((speaker, index) => {
+    const taken = new Set(Object.values(colors).map(color => color.toUpperCase()));
+    colors[speaker] = SPEAKER_COLORS.find(color => !taken.has(color)) || SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+  });
+  return { ...captions, speakerColors: colors };
+};
@@ -0,0 +1,288 @@
+import { CaptionPosition, CaptionSegment, CaptionSettings } from "@/lib/types";
+import { getCaptionScale } from "@/lib/render/compositor";
+import { getCaptionColor } from "@/lib/speakers";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+const pad = (value: number | string, length = 2) => String(value).padStart(length, "0");
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3_600_000),
+    minutes: Math.floor((totalMs % 3_600_000) / 60_000),
+    seconds: Math.floor((totalMs % 60_000) / 1000),
+    ms: totalMs % 1000,
+  };
+};
+
+// 00:00:01,500
+const formatSrtTime = (seconds: number) => {
+  const t = splitTime(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)},${pad(t.ms, 3)}`;
+};
+
+// 00:00:01.500
+const formatVttTime = (seconds: number) => {
+  const t = splitTime(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.ms, 3)}`;
+};
+
+// 0:00:01.50 (ASS only has centisecond precision)
+const formatAssTime = (seconds: number) => {
+  const t = splitTime(seconds);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(Math.floor(t.ms / 10))}`;
+};
+
+export const toSrt = (segments: CaptionSegment[]): string => {
+  return segments
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatSrtTime(segment.start)} --> ${formatSrtTime(segment.end)}`,
+      segment.text,
+    ].join("\n"))
+    .join("\n\n") + "\n";
+};
+
+export const toVtt = (segments: CaptionSegment[]): string => {
+  const cues = segments.map(segment => [
+    `${formatVttTime(segment.start)} --> ${formatVttTime(segment.end)}`,
+    // Cue text is HTML-like, and "-->" would end the cue timing line early in some parsers. Dialogue lines
+    // are wrapped in a voice span naming the speaker
+    (segment.speaker ? `<v ${segment.speaker}>` : "") +
+      segment.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/-->/g, "->"),
+  ].join("\n"));
+
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+};
+
+// ASS colours are &HAABBGGRR, where AA is transparency rather than opacity
+const toAssColor = (hex: string, opacity: number) => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  const [r, g, b] = match ? match.slice(1) : ["FF", "FF", "FF"];
+  const alpha = Math.round(255 * (1 - Math.max(0, Math.min(100, opacity)) / 100));
+  return `&H${pad(alpha.toString(16))}${b}${g}${r}`.toUpperCase();
+};
+
+// Numpad-style alignment, horizontally centred
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = {
+  top: 8,
+  middle: 5,
+  bottom: 2,
+};
+
+const escapeAssText = (text: string) => {
+  return text.replace(/\\/g, "\\\\").replace(/[{}]/g, "").replace(/\r?\n/g, "\\N");
+};
+
+// Styled subtitles carrying the caption font, size, colour, opacity, weight and position
+export const toAss = (
+  segments: CaptionSegment[],
+  captions: CaptionSettings,
+  { width, height }: { width: number; height: number }
+): string => {
+  const scale = getCaptionScale(width);
+  const fontName = captions.font.split(",")[0].trim().replace(/["']/g, "");
+  // Same translucent black box the preview and burned-in captions use
+  const boxColor = toAssColor("#000000", 40 * (captions.opacity / 100));
+
+  const style = [
+    "Default",
+    fontName,
+    Math.round(captions.fontSize * scale),
+    toAssColor(captions.color, captions.opacity),
+    toAssColor(captions.color, captions.opacity),
+    boxColor,
+    boxColor,
+    captions.textStyle.bold ? -1 : 0,
+    captions.textStyle.italic ? -1 : 0,
+    0, // underline
+    0, // strikeout
+    100, // scale x
+    100, // scale y
+    0, // spacing
+    0, // angle
+    3, // border style: opaque box
+    Math.round(8 * scale), // box padding
+    0, // shadow
+    ASS_ALIGNMENT[captions.position],
+    Math.round(width * 0.05),
+    Math.round(width * 0.05),
+    Math.round(16 * scale),
+    1, // encoding
+  ].join(",");
+
+  // Speakers go in the Name field; colour coded dialogue overrides the style colour per line
+  const events = segments.map(segment => {
+    const color = getCaptionColor(captions, segment.speaker);
+    const override = color !== captions.color ? `{\\c&H${toAssColor(color, 100).slice(4)}&}` : "";
+    return `Dialogue: 0,${formatAssTime(segment.start)},${formatAssTime(segment.end)},Default,${segment.speaker || ""},0,0,0,,${override}${escapeAssText(segment.text)}`;
+  });
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    `Style: ${style}`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+  ].join("\n") + "\n";
+};
+
+const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  ass: "text/x-ssa",
+};
+
+export const createSubtitleFile = (
+  format: SubtitleFormat,
+  segments: CaptionSegment[],
+  captions: CaptionSettings,
+  dimensions: { width: number; height: number }
+): Blob => {
+  const content =
+    format === "srt" ? toSrt(segments) :
+    format === "vtt" ? toVtt(segments) :
+    toAss(segments, captions, dimensions);
+
+  return new Blob([content], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` });
+};
+
+export interface SubtitleParseError {
+  line: number; // 1-based line in the source file
+  message: string;
+}
+
+export interface SubtitleParseResult {
+  segments: CaptionSegment[];
+  errors: SubtitleParseError[];
+}
+
+// Hours are optional in WebVTT; SRT uses a comma before the milliseconds but a dot is common in the wild
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, "0")) / 1000
+  );
+};
+
+// Drop inline markup (<i>, <v Speaker>, {\an8}...) and decode the entities WebVTT allows
+const cleanCueText = (lines: string[]): string => {
+  return lines
+    .join(" ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// Group lines into blank-line separated blocks, remembering where each line came from
+const splitBlocks = (content: string): { line: number; text: string }[][] => {
+  const blocks: { line: number; text: string }[][] = [];
+  let current: { line: number; text: string }[] = [];
+
+  content
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n|\r|\n/)
+    .forEach((text, index) => {
+      if (text.trim() === "") {
+        if (current.length > 0) blocks.push(current);
+        current = [];
+      } else {
+        current.push({ line: index + 1, text });
+      }
+    });
+  if (current.length > 0) blocks.push(current);
+
+  return blocks;
+};
+
+const parseCueBlock = (
+  block: { line: number; text: string }[],
+  errors: SubtitleParseError[]
+): CaptionSegment | null => {
+  const timingIndex = block.findIndex(entry => entry.text.includes("-->"));
+  if (timingIndex === -1) {
+    errors.push({ line: block[0].line, message: "Cue has no timing line (expected \"start --> end\")" });
+    return null;
+  }
+  if (timingIndex > 1) {
+    errors.push({ line: block[0].line, message: "Unexpected text before the timing line" });
+    return null;
+  }
+
+  const timing = block[timingIndex];
+  const [startText, rest = ""] = timing.text.split("-->");
+  // Anything after the end time is WebVTT cue settings (position, align...), which we don't use
+  const endText = rest.trim().split(/\s+/)[0] || "";
+  const start = parseTimestamp(startText);
+  const end = parseTimestamp(endText);
+
+  if (start === null) {
+    errors.push({ line: timing.line, message: `Invalid start time "${startText.trim()}"` });
+    return null;
+  }
+  if (end === null) {
+    errors.push({ line: timing.line, message: `Invalid end time "${endText}"` });
+    return null;
+  }
+  if (end <= start) {
+    errors.push({ line: timing.line, message: "Cue ends before it starts" });
+    return null;
+  }
+
+  const lines = block.slice(timingIndex + 1).map(entry => entry.text);
+  const text = cleanCueText(lines);
+  if (!text) {
+    errors.push({ line: timing.line, message: "Cue has no text" });
+    return null;
+  }
+
+  // A WebVTT voice span names the speaker of a dialogue line
+  const speaker = /<v(?:\.[\w.-]+)?\s+([^>]+)>/.exec(lines.join(" "))?.[1].trim();
+  return speaker ? { start, end, text, speaker } : { start, end, text };
+};
+
+// Parse an SRT or WebVTT file into caption segments, collecting a report of every cue that had to be skipped
+export const parseSubtitles = (content: string): SubtitleParseResult => {
+  const blocks = splitBlocks(content);
+  const errors: SubtitleParseError[] = [];
+  const segments: CaptionSegment[] = [];
+
+  const isVtt = blocks[0]?.[0].text.startsWith("WEBVTT");
+  const cueBlocks = isVtt
+    // The header block and NOTE/STYLE/REGION blocks carry no cues
+    ? blocks.slice(1).filter(block => !/^(NOTE|STYLE|REGION)\b/.test(block[0].text))
+    : blocks;
+
+  cueBlocks.forEach(block => {
+    const segment = parseCueBlock(block, errors);
+    if (segment) segments.push(segment);
+  });
+
+  segments.sort((a, b) => a.start - b.start);
+  return { segments, errors };
+};
@@ -0,0 +1,125 @@
+import { CharacterAlignment, VoiceSettings } from "@/lib/types";
+import { SynthesisRequest, SynthesisResult, TtsProvider } from "@/lib/tts/provider";
+
+const DB_NAME = "tts-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "voiceovers";
+
+// Oldest entries are dropped beyond this, since each one holds a full audio file
+const MAX_CACHE_ENTRIES = 100;
+
+interface CachedSpeech {
+  key: string;
+  blob: Blob;
+  alignment: CharacterAlignment | null;
+  createdAt: number;
+}
+
+export interface CachedSynthesisResult extends SynthesisResult {
+  cached: boolean; // true when served from the cache, so nothing was billed
+}
+
+// Everything that changes the generated audio
+export const getSpeechInputs = (text: string, settings: VoiceSettings): string => {
+  return JSON.stringify([settings.provider, settings.voiceId, settings.speed, settings.pitch, text]);
+};
+
+// Content address of a synthesis: a SHA-256 of its inputs
+export const getSpeechCacheKey = async (text: string, settings: VoiceSettings): Promise<string> => {
+  const data = new TextEncoder().encode(getSpeechInputs(text, settings));
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        store.createIndex("createdAt", "createdAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const readCachedSpeech = async (key: string): Promise<CachedSpeech | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise<CachedSpeech | undefined>(
+    db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key)
+  );
+};
+
+const writeCachedSpeech = async (entry: CachedSpeech) => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+  await requestToPromise(store.put(entry));
+
+  const count = await requestToPromise(store.count());
+  if (count <= MAX_CACHE_ENTRIES) return;
+
+  // Walk from the oldest entry, deleting until back under the limit
+  let excess = count - MAX_CACHE_ENTRIES;
+  const cursorRequest = store.index("createdAt").openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor || excess <= 0) return;
+    cursor.delete();
+    excess--;
+    cursor.continue();
+  };
+};
+
+// Whether identical audio is already cached, so synthesizing it again would bill nothing
+export const isSpeechCached = async (text: string, settings: VoiceSettings): Promise<boolean> => {
+  try {
+    return !!(await readCachedSpeech(await getSpeechCacheKey(text, settings)));
+  } catch {
+    return false;
+  }
+};
+
+// Synthesize through the provider unless identical audio was generated before. The cache is best effort:
+// if IndexedDB is unavailable the provider is simply called every time. With bypassCache a new take is
+// generated and replaces the cached one
+export const synthesizeWithCache = async (
+  provider: TtsProvider,
+  request: SynthesisRequest,
+  { bypassCache = false }: { bypassCache?: boolean } = {}
+): Promise<CachedSynthesisResult> => {
+  const key = await getSpeechCacheKey(request.text, request.settings);
+
+  try {
+    const hit = bypassCache ? undefined : await readCachedSpeech(key);
+    if (hit) {
+      return { blob: hit.blob, alignment: hit.alignment, cached: true };
+    }
+  } catch (error) {
+    console.warn("TTS cache lookup failed:", error);
+  }
+
+  const result = await provider.synthesize(request);
+
+  try {
+    await writeCachedSpeech({ key, blob: result.blob, alignment: result.alignment, createdAt: Date.now() });
+  } catch (error) {
+    console.warn("Failed to store voiceover in the TTS cache:", error);
+  }
+
+  return { ...result, cached: false };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency, splitIntoChunks } from "@/lib/tts/chunks";
+
+describe("splitIntoChunks", () => {
+  it("splits long sentences at word boundaries", () => {
+    expect(splitIntoChunks("one two three four five", 10).map(chunk => chunk.text)).toEqual([
+      "one two",
+      "three four",
+      "five",
+    ]);
+  });
+
+  it("never cuts a pause tag or a pronunciation in two", () => {
+    const chunks = splitIntoChunks("Say it [pause 500ms] like {Nguyen|w ih n} does", 12).map(chunk => chunk.text);
+    expect(chunks).toContain("[pause 500ms]");
+    expect(chunks.some(chunk => chunk.includes("{Nguyen|w ih n}"))).toBe(true);
+    expect(chunks.join(" ")).toBe("Say it [pause 500ms] like {Nguyen|w ih n} does");
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps results in input order", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it("starts no more tasks once one fails", async () => {
+    const started: number[] = [];
+    const run = mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async index => {
+      started.push(index);
+      await new Promise(resolve => setTimeout(resolve, index === 0 ? 5 : 20));
+      if (index === 0) throw new Error("quota exceeded");
+      return index;
+    });
+
+    await expect(run).rejects.toThrow("quota exceeded");
+    // Let the task still in flight settle
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(started).toEqual([0, 1]);
+  });
+});
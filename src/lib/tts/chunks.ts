@@ -0,0 +1,115 @@
+import { parseSpeakerBlocks } from "@/lib/speakers";
+
+// Sentences longer than this are split further at word boundaries to stay well within provider limits
+export const MAX_CHUNK_CHARS = 1000;
+
+export interface SpeechChunk {
+  text: string;
+  paragraphStart: boolean; // first sentence of a paragraph or dialogue turn other than the first, which gets a longer pause
+  speaker: string | null; // dialogue speaker label, null outside dialogue scripts
+}
+
+// Split at whitespace, except inside {word|pronunciation} or [tags], so markup is never cut in two
+const splitWords = (sentence: string): string[] => {
+  const words: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of sentence) {
+    if (char === "{" || char === "[") depth++;
+    else if ((char === "}" || char === "]") && depth > 0) depth--;
+
+    if (depth === 0 && /\s/.test(char)) {
+      if (current) words.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) words.push(current);
+  return words;
+};
+
+const splitLongSentence = (sentence: string, maxChars: number): string[] => {
+  if (sentence.length <= maxChars) return [sentence];
+
+  const parts: string[] = [];
+  let current = "";
+  splitWords(sentence).forEach(word => {
+    if (current && (current + " " + word).length > maxChars) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = current ? current + " " + word : word;
+    }
+  });
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Split after sentence punctuation, except inside {word|pronunciation} or [tags] where a period is part of the markup
+const splitSentences = (paragraph: string): string[] => {
+  const sentences: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < paragraph.length; i++) {
+    const char = paragraph[i];
+    if (char === "{" || char === "[") depth++;
+    else if ((char === "}" || char === "]") && depth > 0) depth--;
+    else if (depth === 0 && /[.!?]/.test(char) && /\s/.test(paragraph[i + 1] || "")) {
+      sentences.push(paragraph.slice(start, i + 1));
+      start = i + 1;
+    }
+  }
+  sentences.push(paragraph.slice(start));
+  return sentences;
+};
+
+// Split a script into sentence chunks that can be synthesized and regenerated independently. Speaker labels
+// are removed from dialogue scripts and each chunk remembers who says it
+export const splitIntoChunks = (text: string, maxChars = MAX_CHUNK_CHARS): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+
+  parseSpeakerBlocks(text).forEach(({ speaker, text: turn }) => {
+    turn.split(/\n\s*\n/).forEach(paragraph => {
+      const sentences = splitSentences(paragraph.trim())
+        .map(sentence => sentence.replace(/\s+/g, " ").trim())
+        .filter(Boolean)
+        .flatMap(sentence => splitLongSentence(sentence, maxChars));
+
+      sentences.forEach((sentence, index) => {
+        chunks.push({ text: sentence, paragraphStart: index === 0 && chunks.length > 0, speaker });
+      });
+    });
+  });
+
+  return chunks;
+};
+
+// Run the task over every item with at most `limit` in flight, keeping results in input order. Once a task
+// fails no more are started, since each one may be a billed request whose result would be thrown away
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
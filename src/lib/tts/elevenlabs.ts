@@ -0,0 +1,364 @@
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { CharacterAlignment, TtsProviderId, VoiceOption } from "@/lib/types";
+import {
+  AlignmentRequest,
+  KeyStatus,
+  SynthesisRequest,
+  SynthesisResult,
+  TtsProvider,
+  VoiceCloneRequest,
+} from "@/lib/tts/provider";
+import {
+  InvalidApiKeyError,
+  isAbortError,
+  NetworkError,
+  ProviderUnavailableError,
+  QuotaExceededError,
+  RateLimitError,
+  TextTooLongError,
+  TtsError,
+  VoiceNotFoundError,
+  withRetries,
+} from "@/lib/tts/errors";
+
+const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
+const ELEVENLABS_MODEL_ID = "eleven_monolingual_v1";
+
+interface ElevenLabsRequest {
+  method?: "GET" | "POST";
+  body?: Record<string, unknown> | FormData; // sent as JSON, or as multipart for file uploads
+  signal?: AbortSignal;
+}
+
+interface ElevenLabsResponse {
+  ok: boolean;
+  status: number;
+  data: unknown; // the JSON body, or null if there wasn't one
+  retryAfter?: number; // ms, from the Retry-After header of a rate limited response
+}
+
+// Error bodies carry a message, and a status naming the problem (invalid_api_key, missing_permissions...)
+interface ElevenLabsErrorBody {
+  detail?: { status?: string; message?: string };
+}
+
+// How a request reaches the API: straight from the browser with the user's key, or through the tts-proxy edge
+// function, which adds the workspace key on the server
+type ElevenLabsTransport = (path: string, request: ElevenLabsRequest, apiKey?: string) => Promise<ElevenLabsResponse>;
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const readResponse = async (response: Response): Promise<ElevenLabsResponse> => ({
+  ok: response.ok,
+  status: response.status,
+  data: await response.json().catch(() => null),
+  retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+});
+
+const directTransport: ElevenLabsTransport = async (path, { method = "GET", body, signal }, apiKey) => {
+  if (!apiKey) {
+    throw new InvalidApiKeyError("Please enter your ElevenLabs API key");
+  }
+
+  // The browser sets the multipart boundary itself, so form bodies get no Content-Type here
+  const isForm = body instanceof FormData;
+  let response: Response;
+  try {
+    response = await fetch(`${ELEVENLABS_API_URL}${path}`, {
+      method,
+      headers: {
+        "xi-api-key": apiKey,
+        ...(body && !isForm ? { "Content-Type": "application/json" } : {}),
+      },
+      body: isForm ? body : body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError();
+  }
+  return readResponse(response);
+};
+
+const proxyTransport: ElevenLabsTransport = async (path, { method = "GET", body, signal }) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    // Not worth retrying: signing in, or entering a key of their own, is the way out
+    throw new InvalidApiKeyError("Sign in to use the workspace ElevenLabs key");
+  }
+
+  if (body instanceof FormData) {
+    throw new TtsError("request_failed", "Uploads aren't supported through the workspace proxy");
+  }
+
+  const { data, error } = await supabase.functions.invoke("tts-proxy", { body: { path, method, body }, signal });
+  if (!error) return { ok: true, status: 200, data };
+
+  // The proxy passes the API's status, error body and Retry-After through
+  if (error instanceof FunctionsHttpError) {
+    return readResponse(error.context);
+  }
+  if (error instanceof FunctionsFetchError) {
+    // A cancelled request fails like a dropped connection
+    signal?.throwIfAborted();
+    throw new NetworkError();
+  }
+  throw new ProviderUnavailableError(`The ElevenLabs proxy is unavailable: ${error.message}`);
+};
+
+const getErrorMessage = ({ status, data }: ElevenLabsResponse): string => {
+  return (data as ElevenLabsErrorBody | null)?.detail?.message || `API error: ${status}`;
+};
+
+// Turn a failed response into the typed error the voice controls know how to recover from
+const toTtsError = (response: ElevenLabsResponse): TtsError => {
+  const detail = (response.data as ElevenLabsErrorBody | null)?.detail;
+  const message = getErrorMessage(response);
+
+  switch (detail?.status) {
+    case "invalid_api_key":
+    case "missing_permissions":
+      return new InvalidApiKeyError(message);
+    case "quota_exceeded":
+      return new QuotaExceededError(message);
+    case "voice_not_found":
+      return new VoiceNotFoundError(message);
+    case "max_character_limit_exceeded":
+    case "text_too_long":
+      return new TextTooLongError(message);
+    case "proxy_error":
+      // Raised by the proxy itself (signed out, no workspace key), which a retry won't fix
+      return new TtsError("request_failed", message);
+  }
+
+  if (response.status === 401) return new InvalidApiKeyError(message);
+  if (response.status === 404) return new VoiceNotFoundError(message);
+  if (response.status === 429) return new RateLimitError(message, response.retryAfter);
+  if (response.status >= 500) return new ProviderUnavailableError(message);
+  return new TtsError("request_failed", message);
+};
+
+// The parts of a voice in the /v1/voices response that the picker shows
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string; // "premade", "cloned", "generated"...
+  preview_url?: string | null;
+  labels?: Record<string, string | undefined>;
+  verified_languages?: { language: string }[] | null;
+}
+
+const parseGender = (gender: string | undefined): VoiceOption["gender"] => {
+  return gender === "male" || gender === "female" ? gender : undefined;
+};
+
+const parseVoice = (voice: ElevenLabsVoice): VoiceOption => {
+  const labels = voice.labels || {};
+  return {
+    id: voice.voice_id,
+    name: voice.name,
+    gender: parseGender(labels.gender?.toLowerCase()),
+    accent: labels.accent,
+    age: labels.age,
+    language: labels.language || voice.verified_languages?.[0]?.language,
+    description: labels.description,
+    preview: voice.preview_url || undefined,
+    custom: voice.category === "cloned" || voice.category === "generated" || undefined,
+  };
+};
+
+const listVoices = async (transport: ElevenLabsTransport, apiKey?: string): Promise<VoiceOption[]> => {
+  const response = await transport("/voices", {}, apiKey);
+  if (!response.ok) {
+    throw toTtsError(response);
+  }
+
+  const data = response.data as { voices?: ElevenLabsVoice[] } | null;
+  return (data?.voices || []).map(parseVoice);
+};
+
+// Instant voice cloning: the samples are uploaded to /v1/voices/add and the new voice joins the account's list
+const addVoice = async (
+  transport: ElevenLabsTransport,
+  { name, description, samples, apiKey }: VoiceCloneRequest
+): Promise<VoiceOption> => {
+  const form = new FormData();
+  form.append("name", name);
+  if (description) form.append("description", description);
+  samples.forEach(sample => form.append("files", sample, sample.name));
+
+  const response = await transport("/voices/add", { method: "POST", body: form }, apiKey);
+  if (!response.ok) {
+    throw toTtsError(response);
+  }
+
+  const data = response.data as { voice_id: string };
+  return { id: data.voice_id, name, description, custom: true };
+};
+
+// Character quota of the account behind the key, from /v1/user/subscription
+interface ElevenLabsSubscription {
+  character_count: number;
+  character_limit: number;
+  next_character_count_reset_unix?: number | null;
+}
+
+const getKeyStatus = async (transport: ElevenLabsTransport, apiKey?: string): Promise<KeyStatus> => {
+  const response = await transport("/user/subscription", {}, apiKey);
+  if (response.ok) {
+    const subscription = response.data as ElevenLabsSubscription;
+    return {
+      valid: true,
+      characterLimit: subscription.character_limit,
+      charactersUsed: subscription.character_count,
+      resetsAt: subscription.next_character_count_reset_unix
+        ? subscription.next_character_count_reset_unix * 1000
+        : undefined,
+    };
+  }
+
+  // Restricted keys may speak without being allowed to read the account, so their quota is unknown
+  const detail = (response.data as ElevenLabsErrorBody | null)?.detail;
+  if (response.status === 401 && detail?.status === "missing_permissions") {
+    return { valid: true };
+  }
+  if (response.status === 401) {
+    return { valid: false, message: detail?.message || "The API key was rejected" };
+  }
+  throw toTtsError(response);
+};
+
+// Shape of the alignment block in the text-to-speech/with-timestamps response
+interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+interface ElevenLabsTimestampResponse {
+  audio_base64: string;
+  alignment?: ElevenLabsAlignment | null;
+}
+
+const base64ToBlob = (base64: string, type: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+// Convert the API's alignment into ours, dropping it if the arrays don't line up
+export const parseAlignment = (alignment: ElevenLabsAlignment | null | undefined): CharacterAlignment | null => {
+  if (!alignment?.characters?.length) return null;
+
+  const { characters, character_start_times_seconds: starts, character_end_times_seconds: ends } = alignment;
+  if (starts?.length !== characters.length || ends?.length !== characters.length) return null;
+
+  return { characters, characterStartTimes: starts, characterEndTimes: ends };
+};
+
+// Generate speech along with per-character timings for the captions
+const synthesize = async (
+  transport: ElevenLabsTransport,
+  { text, settings, apiKey, signal }: SynthesisRequest
+): Promise<SynthesisResult> => {
+  const response = await transport(`/text-to-speech/${settings.voiceId}/with-timestamps`, {
+    method: "POST",
+    body: {
+      text,
+      model_id: ELEVENLABS_MODEL_ID,
+      voice_settings: {
+        stability: 0.5,
+        similarity_boost: 0.75,
+        style: 0.0,
+        use_speaker_boost: true,
+        speaking_rate: settings.speed,
+        pitch: settings.pitch / 100 // ElevenLabs uses -1 to 1 range
+      }
+    },
+    signal,
+  }, apiKey);
+
+  if (!response.ok) {
+    throw toTtsError(response);
+  }
+
+  const data = response.data as ElevenLabsTimestampResponse | null;
+  if (!data?.audio_base64) {
+    throw new ProviderUnavailableError("The voice service returned no audio");
+  }
+
+  return {
+    blob: base64ToBlob(data.audio_base64, "audio/mpeg"),
+    alignment: parseAlignment(data.alignment),
+  };
+};
+
+// Response of /v1/forced-alignment, timed per character of the submitted text
+interface ElevenLabsForcedAlignment {
+  characters: { text: string; start: number; end: number }[];
+}
+
+// Time a recording against its transcript, for narration recorded rather than synthesized
+const alignSpeech = async (
+  transport: ElevenLabsTransport,
+  { audio, text, apiKey, signal }: AlignmentRequest
+): Promise<CharacterAlignment> => {
+  const form = new FormData();
+  form.append("file", audio, "narration.wav");
+  form.append("text", text);
+
+  const response = await transport("/forced-alignment", { method: "POST", body: form, signal }, apiKey);
+  if (!response.ok) {
+    throw toTtsError(response);
+  }
+
+  const characters = (response.data as ElevenLabsForcedAlignment | null)?.characters || [];
+  return {
+    characters: characters.map(character => character.text),
+    characterStartTimes: characters.map(character => character.start),
+    characterEndTimes: characters.map(character => character.end),
+  };
+};
+
+const createElevenLabsProvider = (
+  id: TtsProviderId,
+  name: string,
+  transport: ElevenLabsTransport,
+  requiresApiKey: boolean
+): TtsProvider => ({
+  id,
+  name,
+  requiresApiKey,
+  // The lowest concurrent request limit among ElevenLabs plans
+  maxConcurrency: 2,
+  // Break tags are honoured up to 3 seconds; phoneme tags and emphasis need models other than the one used here
+  scriptCapabilities: { breakTags: true, maxBreakMs: 3000, emphasisTags: false, phonemeTags: false },
+  listVoices: async (apiKey) => (requiresApiKey && !apiKey ? [] : withRetries(() => listVoices(transport, apiKey))),
+  getKeyStatus: (apiKey) => getKeyStatus(transport, apiKey),
+  synthesize: (request) => synthesize(transport, request),
+  // Cloning adds to the account that owns the key, so it's only offered with the user's own key
+  addVoice: requiresApiKey ? (request) => addVoice(transport, request) : undefined,
+  // Recordings are uploaded as files, which the proxy doesn't forward
+  alignSpeech: requiresApiKey ? (request) => alignSpeech(transport, request) : undefined,
+});
+
+export const elevenLabsProvider = createElevenLabsProvider("elevenlabs", "ElevenLabs", directTransport, true);
+
+// The same voices through the tts-proxy edge function, so the workspace key never reaches the browser
+export const elevenLabsProxyProvider = createElevenLabsProvider(
+  "elevenlabs-proxy",
+  "ElevenLabs (workspace)",
+  proxyTransport,
+  false
+);
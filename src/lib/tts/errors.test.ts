@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { VoiceSettings } from "@/lib/types";
+import { elevenLabsProvider, elevenLabsProxyProvider } from "@/lib/tts/elevenlabs";
+import {
+  InvalidApiKeyError,
+  ProviderUnavailableError,
+  QuotaExceededError,
+  RateLimitError,
+  TextTooLongError,
+  VoiceNotFoundError,
+  withRetries,
+} from "@/lib/tts/errors";
+import successResponse from "@/lib/__fixtures__/with-timestamps-punctuation.json";
+
+const settings = { voiceId: "voice-1", speed: 1, pitch: 0 } as VoiceSettings;
+
+type Reply = { status: number; body?: unknown; headers?: Record<string, string> };
+
+// Stands in for api.elevenlabs.io: answers each request with the next queued reply, the last one repeating,
+// and rejects like fetch does when the request is aborted
+const serveApi = (...replies: Reply[]) => {
+  const requests: { url: string; at: number }[] = [];
+  const fetch = vi.fn(async (url: string, init: RequestInit = {}) => {
+    if (init.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    requests.push({ url, at: Date.now() });
+    const { status, body, headers = {} } = replies[Math.min(requests.length, replies.length) - 1];
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+  });
+  vi.stubGlobal("fetch", fetch);
+  return requests;
+};
+
+const error = (status: string, message: string) => ({ detail: { status, message } });
+
+// Synthesis as the voiceover runs it: the provider call, retried
+const synthesize = (signal?: AbortSignal) =>
+  withRetries(() => elevenLabsProvider.synthesize({ text: "Hello", settings, apiKey: "test-key", signal }), { signal });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, "random").mockReturnValue(0.5); // no jitter
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("retries", () => {
+  it("waits as long as Retry-After asks on a 429", async () => {
+    const requests = serveApi(
+      { status: 429, body: error("too_many_concurrent_requests", "Too many requests"), headers: { "Retry-After": "5" } },
+      { status: 200, body: successResponse }
+    );
+
+    const result = synthesize();
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(requests).toHaveLength(2);
+
+    const { blob, alignment } = await result;
+    expect(blob.type).toBe("audio/mpeg");
+    expect(alignment.characters.join("")).toBe(successResponse.alignment.characters.join(""));
+  });
+
+  it("backs off exponentially on server errors and gives up after the retry cap", async () => {
+    const requests = serveApi({ status: 503, body: error("service_unavailable", "Try again later") });
+
+    const result = synthesize();
+    const rejection = expect(result).rejects.toBeInstanceOf(ProviderUnavailableError);
+    await vi.runAllTimersAsync();
+    await rejection;
+
+    // The first try and three retries, 1s, 2s and 4s apart
+    expect(requests.map((request, index) => (index === 0 ? 0 : request.at - requests[index - 1].at))).toEqual([
+      0, 1000, 2000, 4000,
+    ]);
+  });
+
+  it("stops waiting when aborted during the backoff", async () => {
+    const requests = serveApi({ status: 500 });
+    const controller = new AbortController();
+
+    const result = synthesize(controller.signal);
+    const rejection = expect(result).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await rejection;
+
+    await vi.runAllTimersAsync();
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("typed errors", () => {
+  const cases: [string, Reply, new (...args: never[]) => Error][] = [
+    ["a rejected key", { status: 401, body: error("invalid_api_key", "Invalid API key") }, InvalidApiKeyError],
+    ["a bare 401", { status: 401 }, InvalidApiKeyError],
+    [
+      "an exhausted quota",
+      { status: 401, body: error("quota_exceeded", "This request exceeds your quota") },
+      QuotaExceededError,
+    ],
+    ["a missing voice", { status: 400, body: error("voice_not_found", "Voice not found") }, VoiceNotFoundError],
+    [
+      "text over the limit",
+      { status: 400, body: error("max_character_limit_exceeded", "Text is too long") },
+      TextTooLongError,
+    ],
+  ];
+
+  it.each(cases)("maps %s to its error without retrying", async (_, reply, type) => {
+    const requests = serveApi(reply);
+
+    const result = synthesize();
+    const rejection = expect(result).rejects.toBeInstanceOf(type);
+    await vi.runAllTimersAsync();
+    await rejection;
+    expect(requests).toHaveLength(1);
+  });
+
+  it("keeps the API's message", async () => {
+    serveApi({ status: 400, body: error("voice_not_found", "Voice voice-1 was not found") });
+    await expect(synthesize()).rejects.toThrow("Voice voice-1 was not found");
+  });
+
+  it("marks rate limits retryable with the requested wait", async () => {
+    serveApi({ status: 429, headers: { "Retry-After": "2" } });
+    const rejection = elevenLabsProvider.synthesize({ text: "Hello", settings, apiKey: "test-key" });
+    await expect(rejection).rejects.toBeInstanceOf(RateLimitError);
+    await expect(rejection).rejects.toMatchObject({ code: "rate_limited", retryable: true, retryAfter: 2000 });
+  });
+});
+
+describe("workspace proxy", () => {
+  // A new functions client is made on every access, so invoke is watched on their shared prototype
+  const watchInvoke = () => vi.spyOn(Object.getPrototypeOf(supabase.functions), "invoke");
+
+  it("fails without retrying when signed out", async () => {
+    vi.spyOn(supabase.auth, "getSession").mockResolvedValue({ data: { session: null }, error: null });
+    const invoke = watchInvoke();
+
+    const result = withRetries(() => elevenLabsProxyProvider.synthesize({ text: "Hello", settings }));
+    const rejection = expect(result).rejects.toBeInstanceOf(InvalidApiKeyError);
+    await vi.runAllTimersAsync();
+    await rejection;
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("passes the abort signal on to the proxy request", async () => {
+    vi.spyOn(supabase.auth, "getSession").mockResolvedValue({ data: { session: {} as Session }, error: null });
+    const invoke = watchInvoke().mockResolvedValue({ data: successResponse, error: null });
+    const controller = new AbortController();
+
+    await elevenLabsProxyProvider.synthesize({ text: "Hello", settings, signal: controller.signal });
+    expect(invoke).toHaveBeenCalledWith("tts-proxy", expect.objectContaining({ signal: controller.signal }));
+  });
+});
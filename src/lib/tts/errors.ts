@@ -0,0 +1,130 @@
+// Typed failures from TTS providers, so the voice controls can explain them and offer a way out, and the retry
+// loop can tell a busy service from a request that will never succeed
+
+export type TtsErrorCode =
+  | "invalid_key"
+  | "quota_exceeded"
+  | "voice_not_found"
+  | "text_too_long"
+  | "rate_limited"
+  | "unavailable"
+  | "network"
+  | "request_failed";
+
+export class TtsError extends Error {
+  readonly code: TtsErrorCode;
+  readonly retryable: boolean;
+  readonly retryAfter?: number; // ms the provider asked to wait before trying again
+
+  constructor(
+    code: TtsErrorCode,
+    message: string,
+    { retryable = false, retryAfter }: { retryable?: boolean; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = "TtsError";
+    this.code = code;
+    this.retryable = retryable;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class InvalidApiKeyError extends TtsError {
+  constructor(message = "The API key was rejected") {
+    super("invalid_key", message);
+    this.name = "InvalidApiKeyError";
+  }
+}
+
+export class QuotaExceededError extends TtsError {
+  constructor(message = "The account has no characters left this period") {
+    super("quota_exceeded", message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class VoiceNotFoundError extends TtsError {
+  constructor(message = "The selected voice is not available") {
+    super("voice_not_found", message);
+    this.name = "VoiceNotFoundError";
+  }
+}
+
+export class TextTooLongError extends TtsError {
+  constructor(message = "The text is too long for a single request") {
+    super("text_too_long", message);
+    this.name = "TextTooLongError";
+  }
+}
+
+export class RateLimitError extends TtsError {
+  constructor(message = "The voice service is busy", retryAfter?: number) {
+    super("rate_limited", message, { retryable: true, retryAfter });
+    this.name = "RateLimitError";
+  }
+}
+
+export class ProviderUnavailableError extends TtsError {
+  constructor(message = "The voice service is unavailable") {
+    super("unavailable", message, { retryable: true });
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+export class NetworkError extends TtsError {
+  constructor(message = "Couldn't reach the voice service. Check your connection") {
+    super("network", message, { retryable: true });
+    this.name = "NetworkError";
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === "AbortError";
+};
+
+// Typed errors say whether they are worth retrying; anything else is retried except aborts
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof TtsError) return error.retryable;
+  return !isAbortError(error);
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
+};
+
+// Retry a failing task with exponential backoff and jitter, waiting at least as long as a rate limit asks.
+// Failures that can't succeed on a retry (a bad key, an exhausted quota) and aborts are thrown straight away
+export const withRetries = async <T>(
+  task: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelay = 1000,
+    maxDelay = 30000,
+    signal,
+  }: { retries?: number; baseDelay?: number; maxDelay?: number; signal?: AbortSignal } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error) || signal?.aborted) throw error;
+
+      // Jitter spreads out the retries of chunks that were rate limited together
+      const backoff = baseDelay * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const requested = error instanceof TtsError ? error.retryAfter || 0 : 0;
+      const delay = Math.min(maxDelay, Math.max(backoff, requested));
+      console.warn(`Attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms:`, error);
+      await wait(delay, signal);
+    }
+  }
+};
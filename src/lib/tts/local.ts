@@ -0,0 +1,212 @@
+import { CharacterAlignment, VoiceOption } from "@/lib/types";
+import { getAudioRecorderMimeType } from "@/lib/render/audio";
+import { SynthesisRequest, SynthesisResult, TtsProvider } from "@/lib/tts/provider";
+import { TtsError, VoiceNotFoundError } from "@/lib/tts/errors";
+
+// Some browsers fill the voice list asynchronously and never fire voiceschanged when it stays empty
+const VOICE_LOAD_TIMEOUT = 2000;
+
+// Keep recording briefly after the utterance ends so the last word isn't clipped
+const RECORDING_TAIL_MS = 250;
+
+// Tab capture is kept alive this long between utterances, so a chunked script asks for it only once
+const CAPTURE_IDLE_MS = 5000;
+
+// A word boundary reported while speaking, timed from the start of the recording
+export interface SpeechBoundary {
+  charIndex: number;
+  charLength?: number; // missing in some browsers, in which case the word runs to the next whitespace
+  time: number; // in seconds
+}
+
+const isSpeechSynthesisSupported = (): boolean => {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+};
+
+const loadSystemVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const timeout = setTimeout(() => resolve(speechSynthesis.getVoices()), VOICE_LOAD_TIMEOUT);
+    speechSynthesis.addEventListener(
+      "voiceschanged",
+      () => {
+        clearTimeout(timeout);
+        resolve(speechSynthesis.getVoices());
+      },
+      { once: true }
+    );
+  });
+};
+
+// Build per-character timings from word boundaries, each word lasting until the next one starts
+export const alignmentFromBoundaries = (
+  text: string,
+  boundaries: SpeechBoundary[],
+  duration: number
+): CharacterAlignment | null => {
+  if (boundaries.length === 0) return null;
+
+  const characters = text.split("");
+  const characterStartTimes: number[] = [];
+  const characterEndTimes: number[] = [];
+
+  // Characters outside any reported word (spaces, punctuation) sit at the end of the previous word
+  let wordIndex = -1;
+  let lastEnd = 0;
+  characters.forEach((char, index) => {
+    while (wordIndex + 1 < boundaries.length && boundaries[wordIndex + 1].charIndex <= index) {
+      wordIndex++;
+    }
+
+    const boundary = boundaries[wordIndex];
+    const wordEnd = boundary
+      ? boundary.charLength !== undefined
+        ? boundary.charIndex + boundary.charLength
+        : text.slice(boundary.charIndex).search(/\s|$/) + boundary.charIndex
+      : -1;
+
+    if (boundary && index < wordEnd) {
+      const next = boundaries[wordIndex + 1];
+      lastEnd = next ? next.time : duration;
+      characterStartTimes.push(boundary.time);
+      characterEndTimes.push(lastEnd);
+    } else {
+      characterStartTimes.push(lastEnd);
+      characterEndTimes.push(lastEnd);
+    }
+  });
+
+  return { characters, characterStartTimes, characterEndTimes };
+};
+
+let capturedStream: MediaStream | null = null;
+let releaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+const releaseCapture = () => {
+  capturedStream?.getTracks().forEach(track => track.stop());
+  capturedStream = null;
+};
+
+// The Web Speech API plays straight to the speakers, so the audio is captured by sharing this tab with sound
+const captureTabAudio = async (): Promise<MediaStream> => {
+  if (releaseTimer) clearTimeout(releaseTimer);
+  if (capturedStream?.getAudioTracks().some(track => track.readyState === "live")) {
+    return capturedStream;
+  }
+
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new TtsError("request_failed", "This browser cannot capture tab audio for the local voice");
+  }
+
+  // A declined share prompt isn't retried, which would only show the prompt again
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({
+      video: true,
+      audio: true,
+      preferCurrentTab: true,
+    } as DisplayMediaStreamOptions);
+  } catch {
+    throw new TtsError("request_failed", "Share this tab with \"Share tab audio\" enabled to record the local voice");
+  }
+
+  // Only the sound is needed
+  stream.getVideoTracks().forEach(track => track.stop());
+  if (stream.getAudioTracks().length === 0) {
+    throw new TtsError("request_failed", "Share this tab with \"Share tab audio\" enabled to record the local voice");
+  }
+  capturedStream = new MediaStream(stream.getAudioTracks());
+  return capturedStream;
+};
+
+const synthesize = async ({ text, settings, signal }: SynthesisRequest): Promise<SynthesisResult> => {
+  if (!isSpeechSynthesisSupported() || typeof MediaRecorder === "undefined") {
+    throw new TtsError("request_failed", "Local speech synthesis is not supported in this browser");
+  }
+
+  const voice = (await loadSystemVoices()).find(v => v.voiceURI === settings.voiceId);
+  if (settings.voiceId && !voice) {
+    throw new VoiceNotFoundError("The selected voice isn't installed in this browser");
+  }
+  const stream = await captureTabAudio();
+  const mimeType = getAudioRecorderMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const boundaries: SpeechBoundary[] = [];
+  let recordingStart = 0;
+  const elapsed = () => (performance.now() - recordingStart) / 1000;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      if (voice) utterance.voice = voice;
+      utterance.rate = settings.speed;
+      utterance.pitch = 1 + settings.pitch / 100; // speechSynthesis uses 0 to 2, 1 being normal
+
+      utterance.onboundary = event => {
+        if (event.name === "word") {
+          boundaries.push({ charIndex: event.charIndex, charLength: event.charLength || undefined, time: elapsed() });
+        }
+      };
+      utterance.onend = () => setTimeout(resolve, RECORDING_TAIL_MS);
+      utterance.onerror = event => {
+        // Cancelling through the signal surfaces as an "interrupted" error
+        if (signal?.aborted) reject(signal.reason);
+        else reject(new Error(`Local speech synthesis failed: ${event.error}`));
+      };
+
+      signal?.addEventListener("abort", () => speechSynthesis.cancel(), { once: true });
+
+      recorder.start();
+      recordingStart = performance.now();
+      speechSynthesis.cancel();
+      speechSynthesis.speak(utterance);
+    });
+
+    const duration = elapsed();
+    const stopped = new Promise(resolve => recorder.addEventListener("stop", resolve, { once: true }));
+    recorder.stop();
+    await stopped;
+
+    return {
+      blob: new Blob(chunks, { type: recorder.mimeType || mimeType }),
+      alignment: alignmentFromBoundaries(text, boundaries, duration),
+    };
+  } finally {
+    if (recorder.state !== "inactive") recorder.stop();
+    releaseTimer = setTimeout(releaseCapture, CAPTURE_IDLE_MS);
+  }
+};
+
+const listVoices = async (): Promise<VoiceOption[]> => {
+  if (!isSpeechSynthesisSupported()) return [];
+
+  // Voices that run on the device first, since the rest need a network connection
+  const voices = await loadSystemVoices();
+  return [...voices]
+    .sort((a, b) => Number(b.localService) - Number(a.localService))
+    .map(voice => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      language: voice.lang,
+    }));
+};
+
+// Offline voices from the browser's Web Speech API, for working without network access or an API key
+export const localProvider: TtsProvider = {
+  id: "local",
+  name: "Browser voice",
+  requiresApiKey: false,
+  // There is a single speech output, so utterances can't overlap
+  maxConcurrency: 1,
+  // Browsers speak SSML tags aloud, so pauses are approximated with punctuation
+  scriptCapabilities: { breakTags: false, maxBreakMs: 0, emphasisTags: false, phonemeTags: false },
+  listVoices,
+  synthesize,
+};
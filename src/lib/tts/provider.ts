@@ -0,0 +1,52 @@
+import { CharacterAlignment, TtsProviderId, VoiceOption, VoiceSettings } from "@/lib/types";
+import { ScriptCapabilities } from "@/lib/markup";
+
+export interface SynthesisRequest {
+  text: string;
+  settings: VoiceSettings;
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+export interface SynthesisResult {
+  blob: Blob;
+  alignment: CharacterAlignment | null; // null when the provider can't time the speech
+}
+
+export interface VoiceCloneRequest {
+  name: string;
+  description?: string;
+  samples: File[];
+  apiKey?: string;
+}
+
+// Time an existing recording against the text spoken in it
+export interface AlignmentRequest {
+  audio: Blob;
+  text: string;
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+// Whether a provider accepts an API key, and how much of the account's quota is left when it says
+export interface KeyStatus {
+  valid: boolean;
+  message?: string; // why the key was rejected
+  characterLimit?: number;
+  charactersUsed?: number;
+  resetsAt?: number; // ms timestamp at which the used characters reset
+}
+
+// A text-to-speech backend the voice controls can generate voiceovers with
+export interface TtsProvider {
+  id: TtsProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  maxConcurrency: number; // how many synthesis requests may run at once
+  scriptCapabilities: ScriptCapabilities; // how script markup is translated for this provider
+  listVoices: (apiKey?: string) => Promise<VoiceOption[]>;
+  getKeyStatus?: (apiKey?: string) => Promise<KeyStatus>; // for providers with an account and a quota
+  synthesize: (request: SynthesisRequest) => Promise<SynthesisResult>;
+  addVoice?: (request: VoiceCloneRequest) => Promise<VoiceOption>; // clone a custom voice from sample recordings
+  alignSpeech?: (request: AlignmentRequest) => Promise<CharacterAlignment>; // forced alignment of a recording
+}
@@ -0,0 +1,14 @@
+import { TtsProviderId } from "@/lib/types";
+import { elevenLabsProvider, elevenLabsProxyProvider } from "@/lib/tts/elevenlabs";
+import { localProvider } from "@/lib/tts/local";
+import { TtsProvider } from "@/lib/tts/provider";
+
+export const TTS_PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+  elevenlabs: elevenLabsProvider,
+  "elevenlabs-proxy": elevenLabsProxyProvider,
+  local: localProvider,
+};
+
+export const getTtsProvider = (id: TtsProviderId | undefined): TtsProvider => {
+  return TTS_PROVIDERS[id || "elevenlabs"] || elevenLabsProvider;
+};
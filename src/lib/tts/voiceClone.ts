@@ -0,0 +1,87 @@
+// Quality checks for the recordings a custom voice is cloned from. Errors block the upload; warnings are
+// shown but the user may go ahead
+
+export interface SampleIssue {
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface SampleAnalysis {
+  fileName: string;
+  duration: number; // seconds
+  peak: number; // 0-1
+  rms: number; // 0-1
+  clippedRatio: number; // share of samples at full scale
+  issues: SampleIssue[];
+}
+
+// ElevenLabs instant voice cloning accepts up to 25 files of at most 10MB each
+export const MAX_SAMPLES = 25;
+export const MAX_SAMPLE_BYTES = 10 * 1024 * 1024;
+
+const MIN_SAMPLE_SECONDS = 5;
+const MIN_TOTAL_SECONDS = 30;
+const RECOMMENDED_TOTAL_SECONDS = 60;
+const CLIPPING_LEVEL = 0.99;
+const MAX_CLIPPED_RATIO = 0.001;
+const MIN_RMS = 0.01; // about -40 dBFS
+
+export const analyzeSample = (file: File, buffer: AudioBuffer): SampleAnalysis => {
+  let peak = 0;
+  let clipped = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const level = Math.abs(data[i]);
+      if (level > peak) peak = level;
+      if (level >= CLIPPING_LEVEL) clipped++;
+      sumOfSquares += data[i] * data[i];
+    }
+    count += data.length;
+  }
+
+  const rms = count > 0 ? Math.sqrt(sumOfSquares / count) : 0;
+  const clippedRatio = count > 0 ? clipped / count : 0;
+  const issues: SampleIssue[] = [];
+
+  if (file.size > MAX_SAMPLE_BYTES) {
+    issues.push({ severity: "error", message: "Larger than 10MB" });
+  }
+  if (buffer.duration < MIN_SAMPLE_SECONDS) {
+    issues.push({ severity: "error", message: `Shorter than ${MIN_SAMPLE_SECONDS} seconds` });
+  }
+  if (peak === 0) {
+    issues.push({ severity: "error", message: "Silent" });
+  } else if (rms < MIN_RMS) {
+    issues.push({ severity: "warning", message: "Very quiet; record closer to the microphone" });
+  }
+  if (clippedRatio > MAX_CLIPPED_RATIO) {
+    issues.push({ severity: "warning", message: "Clipping; lower the recording level to avoid distortion" });
+  }
+
+  return { fileName: file.name, duration: buffer.duration, peak, rms, clippedRatio, issues };
+};
+
+// Checks across the whole set of samples
+export const checkSampleSet = (analyses: SampleAnalysis[]): SampleIssue[] => {
+  const issues: SampleIssue[] = [];
+  const total = analyses.reduce((sum, analysis) => sum + analysis.duration, 0);
+
+  if (analyses.length > MAX_SAMPLES) {
+    issues.push({ severity: "error", message: `Use at most ${MAX_SAMPLES} samples` });
+  }
+  if (total < MIN_TOTAL_SECONDS) {
+    issues.push({ severity: "error", message: `Add at least ${MIN_TOTAL_SECONDS} seconds of speech in total` });
+  } else if (total < RECOMMENDED_TOTAL_SECONDS) {
+    issues.push({ severity: "warning", message: "One to two minutes of clean speech gives the closest likeness" });
+  }
+  return issues;
+};
+
+export const hasBlockingIssues = (analyses: SampleAnalysis[]): boolean => {
+  return [...analyses.flatMap(analysis => analysis.issues), ...checkSampleSet(analyses)]
+    .some(issue => issue.severity === "error");
+};
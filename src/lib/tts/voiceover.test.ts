@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { VoiceSettings } from "@/lib/types";
+import { SpeechChunk } from "@/lib/tts/chunks";
+import { parseAlignment } from "@/lib/tts/elevenlabs";
+import { ChunkAudio, stitchVoiceover } from "@/lib/tts/voiceover";
+import firstResponse from "@/lib/__fixtures__/with-timestamps-chunk-1.json";
+import secondResponse from "@/lib/__fixtures__/with-timestamps-chunk-2.json";
+
+const SAMPLE_RATE = 1000;
+
+// Just enough of the Web Audio AudioBuffer for stitching, which Node doesn't have
+class TestAudioBuffer {
+  readonly length: number;
+  readonly numberOfChannels: number;
+  readonly sampleRate: number;
+  private channels: Float32Array[];
+
+  constructor({ length, numberOfChannels, sampleRate }: AudioBufferOptions) {
+    this.length = length;
+    this.numberOfChannels = numberOfChannels ?? 1;
+    this.sampleRate = sampleRate;
+    this.channels = Array.from({ length: this.numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number, offset = 0) {
+    this.channels[channel].set(source, offset);
+  }
+}
+
+const silence = (seconds: number) =>
+  new TestAudioBuffer({ length: Math.round(seconds * SAMPLE_RATE), numberOfChannels: 1, sampleRate: SAMPLE_RATE });
+
+const settings = { sentenceGap: 0.25, paragraphGap: 0.75 } as VoiceSettings;
+
+beforeAll(() => {
+  vi.stubGlobal("AudioBuffer", TestAudioBuffer);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("stitchVoiceover", () => {
+  const chunks: SpeechChunk[] = [
+    { text: "The first chunk ends here.", paragraphStart: false, speaker: null },
+    { text: "Then the second one starts.", paragraphStart: false, speaker: null },
+  ];
+
+  // Each chunk's audio runs a little past its last character
+  const audio: ChunkAudio[] = [
+    { buffer: silence(2) as unknown as AudioBuffer, alignment: parseAlignment(firstResponse.alignment), cached: false },
+    { buffer: silence(2) as unknown as AudioBuffer, alignment: parseAlignment(secondResponse.alignment), cached: false },
+  ];
+
+  it("shifts each chunk's captions by the audio and gaps before it", () => {
+    const { duration, segments } = stitchVoiceover(chunks, audio, settings);
+
+    expect(duration).toBe(4.25);
+    expect(segments).toEqual([
+      { start: 0, end: 0.977, text: "The first chunk" },
+      { start: 1.012, end: 1.751, text: "ends here." },
+      // 2s of the first chunk, then the sentence gap
+      { start: 2.25, end: 2.25 + 0.985, text: "Then the second" },
+      { start: 2.25 + 1.02, end: 2.25 + 1.822, text: "one starts." },
+    ]);
+  });
+
+  it("leaves the longer paragraph gap before a new paragraph", () => {
+    const { segments } = stitchVoiceover([chunks[0], { ...chunks[1], paragraphStart: true }], audio, settings);
+    expect(segments[2].start).toBe(2.75);
+  });
+});
@@ -0,0 +1,93 @@
+import { CaptionSegment, CharacterAlignment, VoiceSettings } from "@/lib/types";
+import { generateAlignedSubtitleTimings, generateSubtitleTimings } from "@/lib/captions";
+import { stripMarkup } from "@/lib/markup";
+import { decodeAudio, encodeWav } from "@/lib/render/audio";
+import { synthesizeWithCache } from "@/lib/tts/cache";
+import { SpeechChunk } from "@/lib/tts/chunks";
+import { withRetries } from "@/lib/tts/errors";
+import { TtsProvider } from "@/lib/tts/provider";
+
+export interface ChunkAudio {
+  buffer: AudioBuffer;
+  alignment: CharacterAlignment | null;
+  cached: boolean;
+}
+
+export interface StitchedVoiceover {
+  blob: Blob;
+  buffer: AudioBuffer;
+  duration: number;
+  segments: CaptionSegment[];
+}
+
+// Synthesize and decode one chunk, retrying transient failures
+export const synthesizeChunk = async (
+  provider: TtsProvider,
+  text: string,
+  settings: VoiceSettings,
+  {
+    apiKey,
+    signal,
+    bypassCache = false,
+  }: { apiKey?: string; signal?: AbortSignal; bypassCache?: boolean } = {}
+): Promise<ChunkAudio> => {
+  const result = await withRetries(
+    () => synthesizeWithCache(provider, { text, settings, apiKey, signal }, { bypassCache }),
+    { signal }
+  );
+  const buffer = await decodeAudio(result.blob);
+  return { buffer, alignment: result.alignment, cached: result.cached };
+};
+
+// Silence inserted before a chunk: longer at paragraph breaks, none before the first
+const getGapBefore = (chunk: SpeechChunk, index: number, settings: VoiceSettings): number => {
+  if (index === 0) return 0;
+  return chunk.paragraphStart ? settings.paragraphGap : settings.sentenceGap;
+};
+
+// Concatenate the chunk audio into one voiceover, with captions timed per chunk and shifted into place
+export const stitchVoiceover = (
+  chunks: SpeechChunk[],
+  audio: ChunkAudio[],
+  settings: VoiceSettings
+): StitchedVoiceover => {
+  const sampleRate = audio[0].buffer.sampleRate;
+  const numberOfChannels = Math.max(...audio.map(({ buffer }) => buffer.numberOfChannels));
+
+  const offsets: number[] = [];
+  let length = 0;
+  chunks.forEach((chunk, index) => {
+    length += Math.round(getGapBefore(chunk, index, settings) * sampleRate);
+    offsets.push(length);
+    length += audio[index].buffer.length;
+  });
+
+  const output = new AudioBuffer({ length: Math.max(1, length), numberOfChannels, sampleRate });
+  const segments: CaptionSegment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const { buffer, alignment } = audio[index];
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      // Mono chunks are copied into every channel
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      output.copyToChannel(source, channel, offsets[index]);
+    }
+
+    // Captions show the script without its markup, whatever text the provider was sent
+    const start = offsets[index] / sampleRate;
+    const displayText = stripMarkup(chunk.text);
+    const chunkSegments = alignment
+      ? generateAlignedSubtitleTimings(alignment, displayText)
+      : generateSubtitleTimings(displayText, buffer.duration);
+    chunkSegments.forEach(segment => {
+      segments.push({
+        ...segment,
+        start: segment.start + start,
+        end: segment.end + start,
+        ...(chunk.speaker ? { speaker: chunk.speaker } : {}),
+      });
+    });
+  });
+
+  return { blob: encodeWav(output), buffer: output, duration: output.duration, segments };
+};
@@ -0,0 +1,53 @@
+import { VoiceOption } from "@/lib/types";
+import { TtsProvider } from "@/lib/tts/provider";
+
+export interface VoiceFilter {
+  query: string;
+  gender: "" | "male" | "female";
+  language: string;
+}
+
+// Catalogues per provider and API key, so reopening the picker or switching back doesn't refetch
+const voiceCache = new Map<string, Promise<VoiceOption[]>>();
+
+const getCacheKey = (provider: TtsProvider, apiKey?: string): string => {
+  return `${provider.id}:${provider.requiresApiKey ? apiKey || "" : ""}`;
+};
+
+export const loadVoices = (provider: TtsProvider, apiKey?: string): Promise<VoiceOption[]> => {
+  const cacheKey = getCacheKey(provider, apiKey);
+  const cached = voiceCache.get(cacheKey);
+  if (cached) return cached;
+
+  const voices = provider.listVoices(apiKey);
+  voiceCache.set(cacheKey, voices);
+  // Failed lookups (a mistyped key, a network error) are retried next time
+  voices.catch(() => voiceCache.delete(cacheKey));
+  return voices;
+};
+
+// Drop the cached catalogue, e.g. after a voice was added to the account
+export const forgetVoices = (provider: TtsProvider, apiKey?: string) => {
+  voiceCache.delete(getCacheKey(provider, apiKey));
+};
+
+export const getVoiceLanguages = (voices: VoiceOption[]): string[] => {
+  const languages = new Set(voices.map(voice => voice.language).filter(Boolean));
+  return [...languages].sort();
+};
+
+// Match the query against everything the picker shows about a voice
+export const filterVoices = (voices: VoiceOption[], { query, gender, language }: VoiceFilter): VoiceOption[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return voices.filter(voice => {
+    if (gender && voice.gender !== gender) return false;
+    if (language && voice.language !== language) return false;
+
+    const haystack = [voice.name, voice.accent, voice.age, voice.language, voice.description]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
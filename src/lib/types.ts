@@ -12,31 +12,102 @@ export interface MediaItem {
 }
 
 // Voice and audio types
+export type TtsProviderId = "elevenlabs" | "elevenlabs-proxy" | "local";
+
 export type VoiceOption = {
   id: string;
   name: string;
-  gender: "male" | "female";
-  preview?: string;
+  gender?: "male" | "female"; // not every provider reports one
+  accent?: string;
+  age?: string;
+  language?: string;
+  description?: string;
+  preview?: string; // URL of a short sample of the voice
+  custom?: boolean; // cloned by the user rather than from the provider's catalogue
 };
 
 export interface VoiceSettings {
+  provider: TtsProviderId; // the provider voiceId belongs to
   voiceId: string;
   speed: number; // 0.8 - 1.5
   pitch: number; // -20 to +20
+  sentenceGap: number; // seconds of silence between sentences of a chunked voiceover
+  paragraphGap: number; // seconds of silence between paragraphs
+  speakers?: Record<string, SpeakerVoice>; // voices for the labels of a dialogue script; unassigned speakers use the voice above
+}
+
+// The voice of one speaker in a dialogue script, from the same provider as the main voice
+export interface SpeakerVoice {
+  voiceId: string;
+  speed: number;
+  pitch: number;
+}
+
+// One synthesis request, recorded against the project it was made for
+export interface UsageEvent {
+  projectId: string;
+  provider: TtsProviderId;
+  voiceId: string;
+  characters: number; // length of the text sent to the provider
+  cached: boolean; // served from the local cache, so nothing was billed
+  createdAt: number; // ms timestamp
+}
+
+// A lexicon entry: how a term should be spoken, as a phonetic respelling or in IPA
+export interface PronunciationEntry {
+  id?: string;
+  term: string;
+  pronunciation: string;
+  kind: "respelling" | "ipa";
 }
 
 export type BackgroundMusic = {
   id: string;
   name: string;
-  url: string;
+  url?: string; // uploaded tracks; bundled ones are generated in the browser
+  duration: number; // in seconds
+  bundled?: boolean;
+};
+
+// Short sounds placed on the timeline, such as whooshes and hits
+export type SoundEffect = {
+  id: string;
+  name: string;
+  url?: string; // uploaded effects; bundled ones are generated in the browser
   duration: number; // in seconds
+  bundled?: boolean;
 };
 
+export interface SoundEffectCue {
+  id: string;
+  effectId: string;
+  time: number; // start position on the timeline, in seconds
+}
+
+// Music dips while the voiceover is louder than the threshold, like a compressor keyed by the voice
+export interface DuckingSettings {
+  enabled: boolean;
+  threshold: number; // dBFS of voiceover level that starts ducking
+  depth: number; // dB the music is lowered by
+  attack: number; // seconds to duck once the voice starts
+  release: number; // seconds to recover once it stops
+}
+
 export interface AudioSettings {
   backgroundMusicId: string | null;
   backgroundMusicVolume: number; // 0-100
   fadeIn: number; // 0-5 seconds
   fadeOut: number; // 0-5 seconds
+  loopMusic: boolean; // repeat to fill the video; otherwise played once. Either way it stops with the video
+  musicTrimStart: number; // seconds into the track the music starts at
+  musicTrimEnd: number | null; // seconds into the track it ends at, null for the end of the track
+  ducking: DuckingSettings;
+  voiceoverVolume: number; // 0-100
+  clipVolume: number; // 0-100, the sound of video clips
+  sfxVolume: number; // 0-100
+  soundEffects: SoundEffectCue[];
+  transitionEffectId: string | null; // played at every transition between clips, null for none
+  loudnessTarget: number | null; // integrated LUFS the exported mix is normalized to, null to leave it as mixed
 }
 
 // Caption types
@@ -60,6 +131,30 @@ export interface CaptionSettings {
   opacity: number; // 0-100
   position: CaptionPosition;
   textStyle: TextStyle;
+  colorBySpeaker?: boolean; // colour dialogue captions by speaker instead of using a single colour
+  speakerColors?: Record<string, string>;
+}
+
+export interface CaptionSegment {
+  start: number; // in seconds
+  end: number; // in seconds
+  text: string;
+  speaker?: string; // label of the dialogue speaker saying it
+}
+
+// Per-character timings returned by TTS providers that support alignment
+export interface CharacterAlignment {
+  characters: string[];
+  characterStartTimes: number[]; // in seconds
+  characterEndTimes: number[]; // in seconds
+}
+
+export interface Voiceover {
+  blob: Blob;
+  url: string;
+  buffer: AudioBuffer; // decoded PCM at the mix sample rate
+  duration: number; // in seconds, taken from the decoded audio
+  segments: CaptionSegment[];
 }
 
 // Video configuration
@@ -103,3 +198,9 @@ export interface ProcessingState {
   estimatedTime?: number; // in seconds
   error?: string;
 }
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+}
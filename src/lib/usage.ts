@@ -0,0 +1,39 @@
+import { TtsProviderId, UsageEvent } from "@/lib/types";
+
+// Rough list prices per 1,000 characters, for estimates only; the provider's invoice is what counts
+export const COST_PER_1K_CHARACTERS: Record<TtsProviderId, number> = {
+  elevenlabs: 0.3,
+  "elevenlabs-proxy": 0.3,
+  local: 0,
+};
+
+export interface UsageSummary {
+  requests: number;
+  characters: number;
+  billedCharacters: number;
+  cachedCharacters: number;
+  cost: number; // estimated, in US dollars
+}
+
+export const estimateCost = (provider: TtsProviderId, characters: number): number => {
+  return (characters / 1000) * (COST_PER_1K_CHARACTERS[provider] ?? 0);
+};
+
+export const summarizeUsage = (events: UsageEvent[]): UsageSummary => {
+  return events.reduce<UsageSummary>((summary, event) => ({
+    requests: summary.requests + 1,
+    characters: summary.characters + event.characters,
+    billedCharacters: summary.billedCharacters + (event.cached ? 0 : event.characters),
+    cachedCharacters: summary.cachedCharacters + (event.cached ? event.characters : 0),
+    cost: summary.cost + (event.cached ? 0 : estimateCost(event.provider, event.characters)),
+  }), { requests: 0, characters: 0, billedCharacters: 0, cachedCharacters: 0, cost: 0 });
+};
+
+// Budgets run per calendar month, in local time
+export const getMonthStart = (now = new Date()): number => {
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+};
+
+export const formatCost = (cost: number): string => {
+  return cost.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: cost < 1 ? 3 : 2 });
+};
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TtsProviderId, UsageEvent } from "@/lib/types";
+
+const BUDGET_STORAGE_KEY = "tts-monthly-budget";
+const PROJECT_STORAGE_KEY = "current-project-id";
+
+type UsageRow = {
+  project_id: string;
+  provider: string;
+  voice_id: string;
+  characters: number;
+  cached: boolean;
+  created_at: string;
+};
+
+const toEvent = (row: UsageRow): UsageEvent => ({
+  projectId: row.project_id,
+  provider: row.provider as TtsProviderId,
+  voiceId: row.voice_id,
+  characters: row.characters,
+  cached: row.cached,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+// Projects aren't saved yet, so usage is recorded against an id kept for the project open in this browser
+export const getCurrentProjectId = (): string => {
+  let id = localStorage.getItem(PROJECT_STORAGE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(PROJECT_STORAGE_KEY, id);
+  }
+  return id;
+};
+
+export const recordUsageEvent = async (event: UsageEvent) => {
+  const { error } = await supabase.from("tts_usage_events").insert({
+    project_id: event.projectId,
+    provider: event.provider,
+    voice_id: event.voiceId,
+    characters: event.characters,
+    cached: event.cached,
+    created_at: new Date(event.createdAt).toISOString(),
+  });
+  if (error) throw new Error(`Failed to record usage: ${error.message}`);
+};
+
+// Every request made for the project, plus the user's requests for any project since the given time
+export const fetchUsageEvents = async (projectId: string, since: number): Promise<UsageEvent[]> => {
+  const { data, error } = await supabase
+    .from("tts_usage_events")
+    .select("project_id, provider, voice_id, characters, cached, created_at")
+    .or(`project_id.eq.${projectId},created_at.gte.${new Date(since).toISOString()}`)
+    .order("created_at");
+  if (error) throw new Error(`Failed to load usage: ${error.message}`);
+  return (data || []).map(toEvent);
+};
+
+// The monthly budget in US dollars, or null for none
+export const getMonthlyBudget = (): number | null => {
+  const value = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+  return value > 0 ? value : null;
+};
+
+export const setMonthlyBudget = (budget: number | null) => {
+  if (budget && budget > 0) {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(budget));
+  } else {
+    localStorage.removeItem(BUDGET_STORAGE_KEY);
+  }
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { v4 as uuidv4 } from "uuid";
@@ -6,6 +6,10 @@ import Layout from "@/components/Layout";
 import MediaUpload from "@/components/MediaUpload";
 import TextEditor from "@/components/TextEditor";
 import VoiceControls from "@/components/VoiceControls";
+import MixPanel, { MixLoudness } from "@/components/MixPanel";
+import MusicPanel from "@/components/MusicPanel";
+import SfxPanel from "@/components/SfxPanel";
+import PronunciationLexicon from "@/components/PronunciationLexicon";
 import Preview from "@/components/Preview";
 import Timeline from "@/components/Timeline";
 import ExportOptions from "@/components/ExportOptions";
@@ -13,7 +17,9 @@ import { useAuth } from "@/contexts/AuthContext";
 import {
   MediaItem,
   CaptionSettings,
+  CaptionSegment,
   VoiceSettings,
+  PronunciationEntry,
   AudioSettings,
   VideoConfig,
   ExportConfig,
@@ -22,8 +28,19 @@ import {
   TransitionEffect,
   ExportFormat,
   ExportQuality,
-  ProcessingState
+  ExportResult,
+  ProcessingState,
+  Voiceover
 } from "@/lib/types";
+import { generateScriptTimings } from "@/lib/speakers";
+import { fetchLexicon } from "@/lib/lexiconStore";
+import { getCurrentProjectId } from "@/lib/usageStore";
+import { loadMusic, playMusic } from "@/lib/music";
+import { loadSoundEffectTracks, placeSoundEffects, playSoundEffects, SoundEffectTrack } from "@/lib/sfx";
+import { computeDuckingCurve } from "@/lib/render/ducking";
+import { getMixTracks, mixdown, MixSettings } from "@/lib/render/mixdown";
+import { buildComposition, getMediaDuration } from "@/lib/render/composition";
+import { renderVideo } from "@/lib/render/renderVideo";
 
 const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
   text: "Enter your caption text here",
@@ -39,9 +56,12 @@ const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
 };
 
 const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  provider: "elevenlabs",
   voiceId: "EXAVITQu4vr4xnSDxMaL", // Sarah
   speed: 1.0,
   pitch: 0,
+  sentenceGap: 0.3,
+  paragraphGap: 0.8,
 };
 
 const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
@@ -49,8 +69,27 @@ const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
   backgroundMusicVolume: 50,
   fadeIn: 0,
   fadeOut: 0,
+  loopMusic: true,
+  musicTrimStart: 0,
+  musicTrimEnd: null,
+  ducking: {
+    enabled: true,
+    threshold: -40,
+    depth: 12,
+    attack: 0.05,
+    release: 0.5,
+  },
+  voiceoverVolume: 100,
+  clipVolume: 100,
+  sfxVolume: 80,
+  soundEffects: [],
+  transitionEffectId: null,
+  loudnessTarget: -14,
 };
 
+// Wait this long after the last change to the sound before measuring the mix
+const MIX_MEASURE_DEBOUNCE_MS = 1000;
+
 const DEFAULT_VIDEO_CONFIG: VideoConfig = {
   aspectRatio: "16:9",
   resolution: "1080p",
@@ -78,13 +117,25 @@ const Index = () => {
     isProcessing: false,
     progress: 0,
   });
+  const [voiceover, setVoiceover] = useState<Voiceover | null>(null);
+  const [lexicon, setLexicon] = useState<PronunciationEntry[]>([]);
+  const [projectId] = useState(getCurrentProjectId);
+  const [importedCaptions, setImportedCaptions] = useState<{ segments: CaptionSegment[]; text: string } | null>(null);
+  const [exportResult, setExportResult] = useState<ExportResult | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [activeCaptionText, setActiveCaptionText] = useState<string>("");
+  const [activeCaptionSpeaker, setActiveCaptionSpeaker] = useState<string | undefined>();
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
+  const [musicBuffer, setMusicBuffer] = useState<AudioBuffer | null>(null);
+  const [sfxTracks, setSfxTracks] = useState<SoundEffectTrack[]>([]);
+  const [mixLoudness, setMixLoudness] = useState<MixLoudness | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastTimestampRef = useRef<number | null>(null);
   const previewPausedRef = useRef<boolean>(false);
   const captionsDataRef = useRef<{text: string, startTime: number, endTime: number}[]>([]);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  // Where the preview is, read when background music starts playing along with it
+  const previewPositionRef = useRef({ time: 0, duration: 0 });
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -92,6 +143,20 @@ const Index = () => {
     }
   }, [user, isLoading, navigate]);
 
+  // Load the user's pronunciation lexicon
+  useEffect(() => {
+    if (!user) {
+      setLexicon([]);
+      return;
+    }
+    fetchLexicon()
+      .then(setLexicon)
+      .catch(error => {
+        console.error("Error loading pronunciations:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to load pronunciations");
+      });
+  }, [user]);
+
   useEffect(() => {
     const updatePreview = (timestamp: number) => {
       if (!lastTimestampRef.current) {
@@ -117,6 +182,70 @@ const Index = () => {
     };
   }, [isPlayingAudio]);
 
+  // Background music is decoded, or rendered for bundled tracks, ahead of playback
+  useEffect(() => {
+    setMusicBuffer(null);
+    if (!audioSettings.backgroundMusicId) return;
+
+    let cancelled = false;
+    loadMusic(audioSettings.backgroundMusicId).then(buffer => {
+      if (!cancelled) setMusicBuffer(buffer);
+    }).catch(error => {
+      console.error("Error loading background music:", error);
+      if (!cancelled) toast.error(error instanceof Error ? error.message : "Failed to load the background music");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioSettings.backgroundMusicId]);
+
+  // How far the music dips under the voiceover over time, shared by the preview and the export
+  const duckingCurve = useMemo(() => {
+    if (!voiceover || !audioSettings.ducking.enabled) return null;
+    return computeDuckingCurve(voiceover.buffer, audioSettings.ducking);
+  }, [voiceover, audioSettings.ducking]);
+
+  // Read when the music starts, so moving a slider doesn't restart it; changes are heard from the next play
+  const musicPlaybackRef = useRef({ audioSettings, duckingCurve });
+  musicPlaybackRef.current = { audioSettings, duckingCurve };
+
+  // Play the music along with the preview from where it is, with the volume, fades and ducking of the export
+  useEffect(() => {
+    if (!isPlayingAudio || !musicBuffer) return;
+    const { time, duration } = previewPositionRef.current;
+    const { audioSettings: settings, duckingCurve: ducking } = musicPlaybackRef.current;
+    return playMusic(musicBuffer, settings, { from: time, duration, ducking });
+  }, [isPlayingAudio, musicBuffer]);
+
+  // Where each effect plays, recomputed only when the cues or the clips they follow change
+  const { soundEffects, transitionEffectId } = audioSettings;
+  const placedEffects = useMemo(
+    () => placeSoundEffects({ soundEffects, transitionEffectId }, media, videoConfig.transition),
+    [soundEffects, transitionEffectId, media, videoConfig.transition]
+  );
+
+  // Decode the placed sound effects, for the preview, the timeline and the loudness measurement
+  useEffect(() => {
+    let cancelled = false;
+    loadSoundEffectTracks(placedEffects).then(tracks => {
+      if (!cancelled) setSfxTracks(tracks);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [placedEffects]);
+
+  // Read when the effects start, like the music settings
+  const sfxPlaybackSettingsRef = useRef(audioSettings);
+  sfxPlaybackSettingsRef.current = audioSettings;
+
+  // Play the sound effects along with the preview from where it is
+  useEffect(() => {
+    if (!isPlayingAudio || sfxTracks.length === 0) return;
+    return playSoundEffects(sfxTracks, sfxPlaybackSettingsRef.current, { from: previewPositionRef.current.time });
+  }, [isPlayingAudio, sfxTracks]);
+
   useEffect(() => {
     const saveInterval = setInterval(() => {
       if (media.length > 0) {
@@ -156,9 +285,23 @@ const Index = () => {
     setVideoConfig(prev => ({ ...prev, resolution }));
   };
 
-  const handleCaptionTimeUpdate = (currentTime: number, captionText: string) => {
+  const handleCaptionsChange = (settings: CaptionSettings) => {
+    setCaptions(settings);
+    
+    // Imported timings no longer line up once the text is edited by hand
+    if (importedCaptions && settings.text !== importedCaptions.text) {
+      setImportedCaptions(null);
+    }
+  };
+
+  const handleSubtitlesImported = (segments: CaptionSegment[], text: string) => {
+    setImportedCaptions({ segments, text });
+  };
+
+  const handleCaptionTimeUpdate = (currentTime: number, captionText: string, speaker?: string) => {
     console.log("Caption time update:", currentTime, captionText);
     setActiveCaptionText(captionText);
+    setActiveCaptionSpeaker(speaker);
     
     if (captionText && currentTime >= 0) {
       if (!captionsDataRef.current.some(c => c.text === captionText && Math.abs(c.startTime - currentTime) < 0.1)) {
@@ -187,7 +330,7 @@ const Index = () => {
     document.dispatchEvent(new CustomEvent('toggle-audio-playback'));
   };
 
-  const handleExport = () => {
+  const handleExport = async () => {
     if (media.length === 0) {
       toast.error("Please add at least one media item before exporting");
       return;
@@ -198,34 +341,76 @@ const Index = () => {
       return;
     }
     
+    setExportResult(null);
     setProcessingState({
       isProcessing: true,
       progress: 0,
     });
     
-    let progress = 0;
-    const totalSteps = 100;
-    const processingTime = Math.min(15000, 5000 + (media.length * 1000));
-    const interval = setInterval(() => {
-      progress += 100 / (processingTime / 200);
+    const abortController = new AbortController();
+    exportAbortRef.current = abortController;
+    
+    try {
+      const composition = buildComposition({
+        media,
+        videoConfig,
+        captions,
+        captionSegments: getCaptionSegments(),
+        minDuration: voiceover?.duration,
+      });
       
-      if (progress >= 100) {
-        clearInterval(interval);
-        progress = 100;
-        
-        setProcessingState({
-          isProcessing: true,
-          progress: 100,
-        });
-        
-        toast.success("Video ready to download!");
-      } else {
-        setProcessingState({
-          isProcessing: true,
-          progress: Math.min(Math.round(progress), 99),
-        });
+      const music = audioSettings.backgroundMusicId ? await loadMusic(audioSettings.backgroundMusicId) : null;
+      const sfx = await loadSoundEffectTracks(placeSoundEffects(audioSettings, media, videoConfig.transition));
+      const audioTracks = await getMixTracks(
+        { media, voiceover: voiceover?.buffer || null, music, ducking: duckingCurve, sfx },
+        audioSettings
+      );
+      
+      const result = await renderVideo({
+        composition,
+        media,
+        audioTracks,
+        loudnessTarget: audioSettings.loudnessTarget,
+        exportConfig,
+        signal: abortController.signal,
+        onProgress: ({ progress, estimatedTime }) => {
+          setProcessingState({
+            isProcessing: true,
+            progress,
+            estimatedTime,
+          });
+        },
+      });
+      
+      setExportResult(result);
+      setProcessingState({
+        isProcessing: true,
+        progress: 100,
+      });
+      
+      toast.success("Video ready to download!");
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        toast.info("Export cancelled");
+        resetProcessingState();
+        return;
       }
-    }, 200);
+      
+      console.error("Video export failed:", error);
+      const message = error instanceof Error ? error.message : "Failed to render video";
+      toast.error(message);
+      setProcessingState({
+        isProcessing: false,
+        progress: 0,
+        error: message,
+      });
+    } finally {
+      exportAbortRef.current = null;
+    }
+  };
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
   };
 
   const resetProcessingState = () => {
@@ -235,14 +420,104 @@ const Index = () => {
     });
   };
 
-  const calculateTotalDuration = (): number => {
+  // Drop the finished video, so the project can be exported again after edits
+  const handleNewExport = () => {
+    setExportResult(null);
+    resetProcessingState();
+  };
+
+  // Imported subtitle timings win, then the voiceover's; otherwise captions are spread evenly over the media
+  const getCaptionSegments = (): CaptionSegment[] => {
+    if (importedCaptions) return importedCaptions.segments;
+    return voiceover
+      ? voiceover.segments
+      : generateScriptTimings(captions.text, calculateMediaDuration());
+  };
+
+  const calculateMediaDuration = (): number => {
     if (media.length === 0) return 0;
     
     return media.reduce((total, item) => {
-      return total + (item.duration || 5);
+      return total + getMediaDuration(item);
     }, 0);
   };
 
+  // The export holds the last clip until the voiceover ends, so the longer of the two wins
+  const calculateTotalDuration = (): number => {
+    if (media.length === 0) return 0;
+    return Math.max(calculateMediaDuration(), voiceover?.duration || 0);
+  };
+
+  // Mix the project offline and measure it, once the sources stop changing, so the loudness is known before export.
+  // Only the levels, fades, trims and target matter here; the rest of the settings reach the mix through the sources
+  const mixDuration = calculateTotalDuration();
+  const {
+    voiceoverVolume,
+    clipVolume,
+    sfxVolume,
+    backgroundMusicVolume,
+    fadeIn,
+    fadeOut,
+    loopMusic,
+    musicTrimStart,
+    musicTrimEnd,
+    loudnessTarget,
+  } = audioSettings;
+  const mixSettings = useMemo<MixSettings>(
+    () => ({
+      voiceoverVolume,
+      clipVolume,
+      sfxVolume,
+      backgroundMusicVolume,
+      fadeIn,
+      fadeOut,
+      loopMusic,
+      musicTrimStart,
+      musicTrimEnd,
+      loudnessTarget,
+    }),
+    [
+      voiceoverVolume,
+      clipVolume,
+      sfxVolume,
+      backgroundMusicVolume,
+      fadeIn,
+      fadeOut,
+      loopMusic,
+      musicTrimStart,
+      musicTrimEnd,
+      loudnessTarget,
+    ]
+  );
+  useEffect(() => {
+    let cancelled = false;
+    setMixLoudness(prev => (prev ? { ...prev, isMeasuring: true } : null));
+
+    const timeout = setTimeout(async () => {
+      try {
+        const tracks = await getMixTracks(
+          { media, voiceover: voiceover?.buffer || null, music: musicBuffer, ducking: duckingCurve, sfx: sfxTracks },
+          mixSettings
+        );
+        if (cancelled) return;
+        if (tracks.length === 0 || mixDuration === 0) {
+          setMixLoudness(null);
+          return;
+        }
+        const { loudness, gain } = await mixdown(tracks, mixDuration, mixSettings.loudnessTarget);
+        if (!cancelled) setMixLoudness({ loudness, gain, isMeasuring: false });
+      } catch (error) {
+        console.error("Error measuring the mix:", error);
+        if (!cancelled) setMixLoudness(null);
+      }
+    }, MIX_MEASURE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [media, voiceover, musicBuffer, duckingCurve, sfxTracks, mixSettings, mixDuration]);
+
   if (isLoading) {
     return (
       <Layout>
@@ -257,6 +532,7 @@ const Index = () => {
   }
 
   const totalMediaDuration = calculateTotalDuration();
+  previewPositionRef.current = { time: currentTime, duration: totalMediaDuration };
 
   return (
     <Layout>
@@ -313,8 +589,11 @@ const Index = () => {
               captions={captions}
               videoConfig={videoConfig}
               currentTime={currentTime}
+              duration={totalMediaDuration}
               activeCaptionText={activeCaptionText}
+              activeCaptionSpeaker={activeCaptionSpeaker}
               isPlayingAudio={isPlayingAudio}
+              clipVolume={audioSettings.clipVolume / 100}
               onPlayPauseToggle={handlePlayPauseToggle}
             />
             
@@ -326,13 +605,20 @@ const Index = () => {
               onMediaRemove={handleMediaRemove}
               transition={videoConfig.transition}
               onTransitionChange={handleTransitionChange}
+              duration={totalMediaDuration}
+              voiceover={voiceover?.buffer || null}
+              music={musicBuffer}
+              audioSettings={audioSettings}
+              soundEffects={sfxTracks}
+              captionSegments={getCaptionSegments()}
             />
           </div>
           
           <div className="space-y-6">
             <TextEditor
               initialSettings={captions}
-              onChange={setCaptions}
+              onChange={handleCaptionsChange}
+              onSubtitlesImported={handleSubtitlesImported}
             />
             
             <VoiceControls
@@ -341,18 +627,43 @@ const Index = () => {
               apiKey={apiKey}
               onApiKeyChange={setApiKey}
               captionText={captions.text}
+              importedSegments={importedCaptions?.segments}
               onCaptionTimeUpdate={handleCaptionTimeUpdate}
               onPlayingChange={handleAudioPlayingChange}
+              onVoiceoverChange={setVoiceover}
+              lexicon={lexicon}
+              projectId={projectId}
+              volume={audioSettings.voiceoverVolume / 100}
             />
             
+            <MusicPanel settings={audioSettings} onChange={setAudioSettings} projectDuration={totalMediaDuration} />
+            
+            <SfxPanel
+              settings={audioSettings}
+              onChange={setAudioSettings}
+              currentTime={currentTime}
+              projectDuration={totalMediaDuration}
+              transition={videoConfig.transition}
+            />
+            
+            <MixPanel settings={audioSettings} onChange={setAudioSettings} loudness={mixLoudness} />
+            
+            <PronunciationLexicon entries={lexicon} onChange={setLexicon} />
+            
             <ExportOptions
               config={exportConfig}
               videoConfig={videoConfig}
               onConfigChange={setExportConfig}
               onExport={handleExport}
+              onCancel={handleCancelExport}
+              onReset={handleNewExport}
               processingProgress={processingState.progress}
+              estimatedTime={processingState.estimatedTime}
               isProcessing={processingState.isProcessing}
               totalMediaDuration={totalMediaDuration}
+              exportResult={exportResult}
+              captions={captions}
+              captionSegments={getCaptionSegments()}
             />
           </div>
         </div>
@@ -0,0 +1,100 @@
+// Forwards ElevenLabs requests from signed-in users, adding the workspace key from the ELEVENLABS_API_KEY secret so
+// it never reaches the browser. Only the endpoints the app uses are allowed through, and each user is capped so one
+// account can't spend the whole key
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
+
+const ALLOWED_PATHS = [
+  /^\/voices$/,
+  /^\/user\/subscription$/,
+  /^\/text-to-speech\/[\w-]+\/with-timestamps$/,
+];
+
+// Per-user caps, overridable with the function's secrets
+const MONTHLY_CHARACTER_LIMIT = Number(Deno.env.get("TTS_PROXY_MONTHLY_CHARACTERS") || 100000);
+const REQUESTS_PER_MINUTE = Number(Deno.env.get("TTS_PROXY_REQUESTS_PER_MINUTE") || 30);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "retry-after",
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+};
+
+// Errors use the ElevenLabs error shape so the client reads them the same way as the API's own
+const error = (status: number, message: string, code = "proxy_error", headers: Record<string, string> = {}) => {
+  return json({ detail: { status: code, message } }, status, headers);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const apiKey = Deno.env.get("ELEVENLABS_API_KEY");
+  if (!apiKey) {
+    return error(503, "No workspace ElevenLabs key is configured");
+  }
+
+  // The anon key is a valid JWT too, so check there is an actual user behind the request
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") || "" } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return error(401, "Sign in to use the workspace ElevenLabs key");
+  }
+
+  const { path, method = "GET", body } = await req.json().catch(() => ({}));
+  if (typeof path !== "string" || !ALLOWED_PATHS.some(pattern => pattern.test(path))) {
+    return error(400, "Unsupported ElevenLabs endpoint");
+  }
+  if (method !== "GET" && method !== "POST") {
+    return error(400, "Unsupported method");
+  }
+
+  // Usage is kept with the service role, out of the user's reach
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { data: usage, error: usageError } = await admin.rpc("get_tts_proxy_usage", { target_user_id: user.id });
+  if (usageError) {
+    return error(503, "Couldn't check your workspace key usage");
+  }
+  const { characters_this_month: charactersUsed = 0, requests_last_minute: recentRequests = 0 } = usage?.[0] || {};
+
+  const characters = typeof body?.text === "string" ? body.text.length : 0;
+  if (recentRequests >= REQUESTS_PER_MINUTE) {
+    // Read by the client like an ElevenLabs rate limit, so it backs off and tries again
+    return error(429, "Too many requests through the workspace key", "rate_limited", { "Retry-After": "60" });
+  }
+  if (characters > 0 && charactersUsed + characters > MONTHLY_CHARACTER_LIMIT) {
+    return error(
+      429,
+      `This month's ${MONTHLY_CHARACTER_LIMIT.toLocaleString("en-US")} workspace key characters are used up. ` +
+        "Add your own ElevenLabs key to keep going",
+      "quota_exceeded"
+    );
+  }
+
+  // Recorded before forwarding, so requests sent together all count
+  await admin.from("tts_proxy_requests").insert({ user_id: user.id, path, characters });
+
+  const response = await fetch(`${ELEVENLABS_API_URL}${path}`, {
+    method,
+    headers: {
+      "xi-api-key": apiKey,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: method === "POST" && body ? JSON.stringify(body) : undefined,
+  });
+
+  // Rate limited clients back off for as long as ElevenLabs asks
+  const retryAfter = response.headers.get("Retry-After");
+  return json(await response.json().catch(() => null), response.status, retryAfter ? { "Retry-After": retryAfter } : {});
+});
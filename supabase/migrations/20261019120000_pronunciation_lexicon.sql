@@ -0,0 +1,30 @@
+-- Per-user pronunciation lexicon, applied to scripts before they are sent to a TTS provider
+create table public.pronunciation_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  term text not null check (length(trim(term)) > 0),
+  pronunciation text not null check (length(trim(pronunciation)) > 0),
+  kind text not null default 'respelling' check (kind in ('respelling', 'ipa')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, term)
+);
+
+alter table public.pronunciation_entries enable row level security;
+
+create policy "Users can read their own pronunciations"
+  on public.pronunciation_entries for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own pronunciations"
+  on public.pronunciation_entries for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own pronunciations"
+  on public.pronunciation_entries for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own pronunciations"
+  on public.pronunciation_entries for delete
+  using (auth.uid() = user_id);
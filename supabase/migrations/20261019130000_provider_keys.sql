@@ -0,0 +1,31 @@
+-- TTS provider API keys, encrypted in the browser with the user's passphrase before they are stored here
+create table public.provider_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  provider text not null,
+  ciphertext text not null,
+  iv text not null,
+  salt text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, provider)
+);
+
+alter table public.provider_keys enable row level security;
+
+create policy "Users can read their own provider keys"
+  on public.provider_keys for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own provider keys"
+  on public.provider_keys for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own provider keys"
+  on public.provider_keys for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own provider keys"
+  on public.provider_keys for delete
+  using (auth.uid() = user_id);
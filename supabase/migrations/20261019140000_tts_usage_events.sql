@@ -0,0 +1,24 @@
+-- One row per TTS synthesis request, for usage and cost tracking per project and per month
+create table public.tts_usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  project_id text not null,
+  provider text not null,
+  voice_id text not null,
+  characters integer not null check (characters >= 0),
+  cached boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index tts_usage_events_user_created_at on public.tts_usage_events (user_id, created_at);
+create index tts_usage_events_project on public.tts_usage_events (project_id);
+
+alter table public.tts_usage_events enable row level security;
+
+create policy "Users can read their own usage"
+  on public.tts_usage_events for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own usage"
+  on public.tts_usage_events for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- Terms match scripts case-insensitively, so "NASA" and "nasa" are the same entry. Keep the most recently
+-- updated of any entries that only differ in case before making them unique
+delete from public.pronunciation_entries as older
+  using public.pronunciation_entries as newer
+  where older.user_id = newer.user_id
+    and lower(older.term) = lower(newer.term)
+    and (older.updated_at, older.id) < (newer.updated_at, newer.id);
+
+-- A generated column rather than an index on lower(term), so upserts can name it as their conflict target
+alter table public.pronunciation_entries
+  add column term_key text generated always as (lower(term)) stored;
+
+alter table public.pronunciation_entries
+  drop constraint pronunciation_entries_user_id_term_key,
+  add constraint pronunciation_entries_user_id_lower_term_key unique (user_id, term_key);
+
+-- Stamp every update, so stores don't have to
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger set_pronunciation_entries_updated_at
+  before update on public.pronunciation_entries
+  for each row execute function public.set_updated_at();
@@ -0,0 +1,30 @@
+-- Requests made through the workspace key proxy, written by the proxy itself so users can't leave any out. The
+-- proxy checks them against its per-user caps before forwarding a request
+create table public.tts_proxy_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  path text not null,
+  characters integer not null default 0 check (characters >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index tts_proxy_requests_user_created_at on public.tts_proxy_requests (user_id, created_at);
+
+-- No policies: only the proxy, with the service role, reads and writes it
+alter table public.tts_proxy_requests enable row level security;
+
+-- A user's proxied characters this calendar month and requests in the last minute
+create function public.get_tts_proxy_usage(target_user_id uuid)
+returns table (characters_this_month bigint, requests_last_minute bigint)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(characters) filter (where created_at >= date_trunc('month', now())), 0),
+    count(*) filter (where created_at >= now() - interval '1 minute')
+  from public.tts_proxy_requests
+  where user_id = target_user_id
+    and created_at >= least(date_trunc('month', now()), now() - interval '1 minute');
+$$;
+
+revoke execute on function public.get_tts_proxy_usage(uuid) from public, anon, authenticated;